@@ -0,0 +1,18 @@
+module.exports = {
+  root: true,
+  env: { browser: true, es2022: true, node: true },
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended',
+    'plugin:react-hooks/recommended',
+  ],
+  ignorePatterns: ['dist', 'node_modules', '.eslintrc.cjs'],
+  parser: '@typescript-eslint/parser',
+  rules: {
+    // `catch (e: any)` is how the app reads error messages
+    '@typescript-eslint/no-explicit-any': 'off',
+    // Destructuring to leave fields out of a copy is common here
+    '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true }],
+    'no-constant-condition': ['error', { checkLoops: false }],
+  },
+};
@@ -1,171 +1,673 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Clapperboard, Play, FileJson, Image as ImageIcon, Trash2, AlertTriangle } from 'lucide-react';
-import { DEFAULT_SHOT_LIST, GeneratedShot, GenerationStatus, ShotConfig } from './types';
-import { generateStoryboardFrame, isApiKeyAvailable } from './services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, Clapperboard, Play, FileJson, Trash2, AlertTriangle, FolderOpen, LayoutList, FileDown, Archive, Scan, Grid3x3, Crosshair, Activity, ChevronDown, ChevronRight, Filter, MessageSquare, History, RefreshCw } from 'lucide-react';
+import { CastMember, DEFAULT_SHOT_LIST, GeneratedShot, GenerationStatus, ImageProvider, Project, ProjectSnapshot, PromptSnippet, ReferenceSettings, RequestDiagnostic, ReviewStatus, Scene, Sequence, ShotConfig, ShotReview, StylePreset, Take } from './types';
+import { getDefaultProviderId, getProvider, listProviders } from './services/providerRegistry';
 import { Button } from './components/Button';
 import { ShotCard } from './components/ShotCard';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { CastPanel } from './components/CastPanel';
+import { ShotListEditor } from './components/ShotListEditor';
+import { ScreenplayImportDialog, ScreenplayImportMode } from './components/ScreenplayImportDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { QueueStatus } from './components/QueueStatus';
+import { RenderSettings } from './components/RenderSettings';
+import { TakeCompareDialog } from './components/TakeCompareDialog';
+import { RegionEditDialog } from './components/RegionEditDialog';
+import { AnimaticPlayer } from './components/AnimaticPlayer';
+import { StylePanel } from './components/StylePanel';
+import { SnippetPanel } from './components/SnippetPanel';
+import { ScenePanel } from './components/ScenePanel';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { ReviewDialog } from './components/ReviewDialog';
+import { SnapshotDialog } from './components/SnapshotDialog';
+import { REVIEW_STATUS_CLASSES } from './components/ReviewStatusBadge';
+import { createCastMember, findShotCastProblem, getShotReferences, resolveShotCast } from './services/castService';
+import { DEFAULT_REFERENCE_SETTINGS, prepareShotCast } from './services/referenceService';
+import { detectScreenplayFormat, parseScreenplay, Screenplay } from './services/screenplayParser';
+import { assignShotIds, parseShotList, serializeShotList, ShotListIssue, SHOT_LIST_VERSION, toShotConfig } from './services/shotListSchema';
+import { createScenesFromScreenplay, describeScene, getShotNumbers, groupShotsByScene, numberScreenplayScenes, updateSceneReferences } from './services/sceneService';
+import { createSeed, toggleCircledTake } from './services/takeService';
+import { createDefaultStyles, resolveShotStyle } from './services/styleService';
+import { buildFramePrompt } from './services/promptBuilder';
+import { getMovePosition, hasEndFrame } from './services/cameraService';
+import { countByStatus, getRenderNotes, getReviewerName, getReviewStatus, reopenForNewTake, REVIEW_STATUSES, setReviewerName } from './services/reviewService';
+import { expandShotPrompt, getTemplateVariables } from './services/promptTemplate';
+import { AnimaticAudio } from './services/animatic';
+import { scoreConsistency } from './services/consistencyService';
+import { toGenerationError, toShotFailure } from './services/generationErrors';
+import { appendDiagnostic, DiagnosticEntry } from './services/diagnosticsLog';
+import { createProject, getLastProjectId, loadProject, saveProject, setLastProjectId } from './services/projectStore';
+import { exportDailiesZip, importDailiesZip } from './services/dailiesArchive';
+import { applyReviewNotes, parseReviewNotes } from './services/reviewBundle';
+import { createSnapshot, isSameRender, toSnapshotShots } from './services/snapshotService';
+import { createGenerationQueue, DEFAULT_QUEUE_SETTINGS, GenerationQueue, QueueProgress, QueueSettings } from './services/generationQueue';
+import { downloadBlob, formatTimestamp, toFileSlug } from './utils/download';
+import { generateId } from './utils/ids';
+import { getFrameSize, parseAspectRatio } from './utils/aspectRatio';
+import { conformImageToAspectRatio, FrameFit } from './utils/canvas';
+import { FramingGuideOptions, NO_FRAMING_GUIDES } from './utils/framingGuides';
 
-// Helper to generate unique IDs
-const generateId = () => Math.random().toString(36).substring(7);
+// Delay before edits are written to IndexedDB
+const AUTOSAVE_DELAY_MS = 500;
+
+type ProjectMeta = Pick<Project, 'id' | 'name' | 'createdAt'>;
+
+type ShotListView = 'form' | 'json';
+
+const GUIDE_TOGGLES: { key: keyof FramingGuideOptions; label: string; icon: typeof Scan }[] = [
+  { key: 'safeAreas', label: 'Safe Areas', icon: Scan },
+  { key: 'thirds', label: 'Thirds', icon: Grid3x3 },
+  { key: 'center', label: 'Center', icon: Crosshair },
+];
+
+// What a queued job hands back to the Dailies
+type FrameResult = Omit<Take, 'id' | 'generatedAt' | 'durationMs'>;
 
 const App: React.FC = () => {
   // --- State ---
-  const [refImage, setRefImage] = useState<string | null>(null);
-  const [jsonInput, setJsonInput] = useState<string>(JSON.stringify(DEFAULT_SHOT_LIST, null, 2));
+  const [cast, setCast] = useState<CastMember[]>([]);
+  const [referenceSettings, setReferenceSettings] = useState<ReferenceSettings>(DEFAULT_REFERENCE_SETTINGS);
+  const [styles, setStyles] = useState<StylePreset[]>(createDefaultStyles);
+  const [styleId, setStyleId] = useState<string | null>(null);
+  const [snippets, setSnippets] = useState<PromptSnippet[]>([]);
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [jsonInput, setJsonInput] = useState<string>(serializeShotList(DEFAULT_SHOT_LIST));
   const [shots, setShots] = useState<GeneratedShot[]>([]);
-  const [isGenerating, setIsGenerating] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<string>(getDefaultProviderId);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null);
+  const [isBrowserOpen, setIsBrowserOpen] = useState(false);
+  const [shotListView, setShotListView] = useState<ShotListView>('form');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [pendingScreenplay, setPendingScreenplay] = useState<{ fileName: string; screenplay: Screenplay } | null>(null);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(DEFAULT_QUEUE_SETTINGS);
+  const [queueProgress, setQueueProgress] = useState<QueueProgress | null>(null);
+  const [compareShotId, setCompareShotId] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<DiagnosticEntry[]>([]);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [editTarget, setEditTarget] = useState<{ shotId: string; takeId: string } | null>(null);
+  const [frameFit, setFrameFit] = useState<FrameFit>('crop');
+  const [framingGuides, setFramingGuides] = useState<FramingGuideOptions>(NO_FRAMING_GUIDES);
+  const [animatic, setAnimatic] = useState<{ startShotId?: string } | null>(null);
+  const [animaticAudio, setAnimaticAudio] = useState<AnimaticAudio | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [reviewTarget, setReviewTarget] = useState<{ shotId: string; takeId?: string } | null>(null);
+  const [reviewFilter, setReviewFilter] = useState<ReviewStatus | null>(null);
+  const [reviewerName, setReviewerNameState] = useState<string>(getReviewerName);
 
   // File Input Refs
-  const imageInputRef = useRef<HTMLInputElement>(null);
   const jsonInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Check API Key on mount
-  const hasApiKey = isApiKeyAvailable();
+  // Last shot list written by the form editor. While the JSON still matches it,
+  // the form stays editable even if a row is incomplete (e.g. an empty prompt).
+  const lastFormEdit = useRef<{ json: string; shots: ShotConfig[] } | null>(null);
 
-  // --- Handlers ---
+  const updateShot = (id: string, changes: Partial<GeneratedShot>) => {
+    setShots(prev => prev.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          setRefImage(event.target.result as string);
-        }
-      };
-      reader.readAsDataURL(file);
+  // One queue for the lifetime of the app; its handlers only use state setters
+  const queueRef = useRef<GenerationQueue<FrameResult> | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createGenerationQueue<FrameResult>(DEFAULT_QUEUE_SETTINGS, {
+      onStart: (id) => updateShot(id, { status: GenerationStatus.PENDING, error: undefined, failure: undefined }),
+      onRetry: (id, attempt, delayMs, error) => updateShot(id, {
+        status: GenerationStatus.QUEUED,
+        error: `Attempt ${attempt} in ${Math.ceil(delayMs / 1000)}s: ${toGenerationError(error).message}`,
+      }),
+      onSuccess: (id, result, durationMs) => {
+        const take: Take = { ...result, id: generateId(), generatedAt: Date.now(), durationMs };
+        setShots(prev => prev.map(s =>
+          s.id === id
+            ? { ...s, status: GenerationStatus.SUCCESS, error: undefined, failure: undefined, takes: [...s.takes, take], review: reopenForNewTake(s.review) }
+            : s
+        ));
+      },
+      onError: (id, error) => {
+        const typed = toGenerationError(error);
+        updateShot(id, { status: GenerationStatus.ERROR, error: typed.message, failure: toShotFailure(typed) });
+      },
+      onCancel: (id) => updateShot(id, { status: GenerationStatus.CANCELLED, error: undefined, failure: undefined }),
+      onProgress: setQueueProgress,
+    });
+  }
+  const queue = queueRef.current;
+
+  const compareShot = compareShotId ? shots.find(s => s.id === compareShotId) : undefined;
+  const editShot = editTarget ? shots.find(s => s.id === editTarget.shotId) : undefined;
+  const editTake = editShot?.takes.find(t => t.id === editTarget!.takeId);
+  const reviewShot = reviewTarget ? shots.find(s => s.id === reviewTarget.shotId) : undefined;
+
+  const isGenerating = queueProgress !== null && queueProgress.running + queueProgress.waiting > 0;
+
+  useEffect(() => {
+    queue.updateSettings(queueSettings);
+  }, [queue, queueSettings]);
+
+  // Resolve the active image provider
+  const provider = getProvider(providerId) ?? getProvider(getDefaultProviderId())!;
+  const isProviderReady = provider.isAvailable();
+
+  // Validate the shot list as it is edited
+  const shotListResult = useMemo(
+    () => parseShotList(jsonInput, {
+      castNames: cast.map(member => member.name),
+      styleNames: styles.map(style => style.name),
+      variables: getTemplateVariables(snippets),
+      scenes,
+    }),
+    [jsonInput, cast, styles, snippets, scenes]
+  );
+
+  // The form editor ignores cast membership so removing a character doesn't lock it
+  const formParseResult = useMemo(() => parseShotList(jsonInput), [jsonInput]);
+  const isFormEditable = formParseResult.ok || lastFormEdit.current?.json === jsonInput;
+  const formShots = useMemo(
+    () => (formParseResult.ok ? formParseResult.shots : lastFormEdit.current?.shots ?? []),
+    [formParseResult]
+  );
+
+  // Production numbers and scene sections for the Dailies
+  const shotNumbers = useMemo(() => getShotNumbers(shots, scenes), [shots, scenes]);
+  const sceneGroups = useMemo(() => groupShotsByScene(shots, scenes, sequences), [shots, scenes, sequences]);
+  const isGroupedByScene = sceneGroups.some(group => group.scene);
+
+  // A shot keeps its frames on "render changed" when its last render succeeded
+  // and its latest take was rendered from the same config
+  const hasCurrentFrame = (config: ShotConfig) => {
+    const previous = shots.find(s => s.id === config.id);
+    const latest = previous?.takes[previous.takes.length - 1];
+    return previous?.status === GenerationStatus.SUCCESS && !!latest?.config && isSameRender(latest.config, config);
+  };
+  // Ids are assigned as Generate would, so shots typed without one still match their Dailies
+  const changedShotCount = shotListResult.ok
+    ? assignShotIds(shotListResult.shots, shots.map(s => s.id)).filter(config => !hasCurrentFrame(config)).length
+    : null;
+  const currentSnapshotShots = useMemo(
+    () => toSnapshotShots(assignShotIds(formShots, shots.map(s => s.id)), shots),
+    [formShots, shots]
+  );
+
+  // The review filter hides shots, and scene sections left empty by it
+  const reviewCounts = useMemo(() => countByStatus(shots), [shots]);
+  const visibleGroups = useMemo(() => (
+    reviewFilter
+      ? sceneGroups
+          .map(group => ({ ...group, indices: group.indices.filter(index => getReviewStatus(shots[index]) === reviewFilter) }))
+          .filter(group => group.indices.length > 0)
+      : sceneGroups
+  ), [sceneGroups, shots, reviewFilter]);
+
+  // --- Persistence ---
+
+  const buildProject = (meta: ProjectMeta): Project => ({
+    ...meta,
+    updatedAt: Date.now(),
+    cast,
+    referenceSettings,
+    styles,
+    styleId,
+    snippets,
+    sequences,
+    scenes,
+    shotListJson: jsonInput,
+    shots,
+    snapshots,
+  });
+
+  const applyProject = (project: Project) => {
+    queue.cancelAll();
+    setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setCast(project.cast);
+    setReferenceSettings(project.referenceSettings);
+    setStyles(project.styles);
+    setStyleId(project.styleId);
+    setSnippets(project.snippets);
+    setSequences(project.sequences);
+    setScenes(project.scenes);
+    setSnapshots(project.snapshots);
+    setCollapsedGroups(new Set());
+    setJsonInput(project.shotListJson);
+    setShots(project.shots);
+    setValidationError(null);
+    setLastProjectId(project.id);
+  };
+
+  // Reopen the last project, or start a fresh one.
+  // Guarded so StrictMode's double effect doesn't create two projects.
+  const hasRestored = useRef(false);
+  useEffect(() => {
+    if (hasRestored.current) return;
+    hasRestored.current = true;
+    const restore = async () => {
+      const lastId = getLastProjectId();
+      const existing = lastId ? await loadProject(lastId).catch(() => undefined) : undefined;
+      if (existing) {
+        applyProject(existing);
+      } else {
+        const project = createProject();
+        await saveProject(project);
+        applyProject(project);
+      }
+    };
+    restore().catch(e => console.error("Failed to restore project:", e));
+    // Runs once on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Autosave whenever the project contents change
+  useEffect(() => {
+    if (!projectMeta) return;
+    const timer = setTimeout(() => {
+      saveProject(buildProject(projectMeta)).catch(e => console.error("Autosave failed:", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // buildProject reads exactly the state listed here
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectMeta, cast, referenceSettings, styles, styleId, snippets, sequences, scenes, jsonInput, shots, snapshots]);
+
+  const flushSave = async () => {
+    if (projectMeta) {
+      await saveProject(buildProject(projectMeta));
     }
   };
 
+  const handleOpenBrowser = async () => {
+    // Make sure the browser lists the current project as it is on screen
+    await flushSave().catch(e => console.error("Save failed:", e));
+    setIsBrowserOpen(true);
+  };
+
+  // Rejections are shown by the project browser
+  const handleOpenProject = async (id: string) => {
+    // A rename of the current project may still be waiting for the autosave
+    await flushSave().catch(e => console.error("Save failed:", e));
+    const project = await loadProject(id);
+    if (!project) throw new Error("Project not found");
+    applyProject(project);
+    setIsBrowserOpen(false);
+  };
+
+  const handleCreateProject = async () => {
+    await flushSave().catch(e => console.error("Save failed:", e));
+    const project = createProject();
+    await saveProject(project);
+    applyProject(project);
+    setIsBrowserOpen(false);
+  };
+
+  const handleRenameCurrent = (name: string) => {
+    setProjectMeta(prev => (prev ? { ...prev, name } : prev));
+  };
+
+  const handleDeleteCurrent = async () => {
+    // Drop the meta first so the autosave doesn't resurrect the deleted record
+    setProjectMeta(null);
+    const project = createProject();
+    await saveProject(project);
+    applyProject(project);
+  };
+
+  // --- Handlers ---
+
   const handleJsonUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Allow loading the same file again
+    e.target.value = '';
     if (file) {
+      const screenplayFormat = detectScreenplayFormat(file.name);
       const reader = new FileReader();
       reader.onload = (event) => {
         if (event.target?.result) {
-          setJsonInput(event.target.result as string);
+          const text = event.target.result as string;
+          if (!screenplayFormat) {
+            setJsonInput(text);
+            return;
+          }
+          try {
+            const screenplay = parseScreenplay(text, screenplayFormat);
+            if (screenplay.scenes.length === 0) {
+              throw new Error("No scenes found in the screenplay.");
+            }
+            setValidationError(null);
+            // Numbered up front so the breakdown can point shots at scene numbers
+            setPendingScreenplay({ fileName: file.name, screenplay: { ...screenplay, scenes: numberScreenplayScenes(screenplay.scenes) } });
+          } catch (error: any) {
+            setValidationError(`Could not import ${file.name}: ${error.message}`);
+          }
         }
       };
       reader.readAsText(file);
     }
   };
 
+  const handleScreenplayImport = (imported: ShotConfig[], mode: ScreenplayImportMode, newCharacters: string[]) => {
+    if (!pendingScreenplay) return;
+    const isAppend = mode === 'append' && shotListResult.ok;
+    if (newCharacters.length > 0) {
+      setCast(prev => [...prev, ...newCharacters.map(name => createCastMember(name))]);
+    }
+    // Appending reuses matching scenes and renumbers the script's clashing ones
+    const imports = createScenesFromScreenplay(pendingScreenplay.screenplay.scenes, assignShotIds(imported), isAppend ? scenes : []);
+    const next = isAppend ? [...shotListResult.shots, ...imports.shots] : imports.shots;
+    setScenes(isAppend ? [...scenes, ...imports.scenes] : imports.scenes);
+    setJsonInput(serializeShotList(next));
+    setPendingScreenplay(null);
+  };
+
+  // Renumbering or retitling a scene keeps its shots pointing at it
+  const handleScenesChange = (next: Scene[]) => {
+    const shotList = formParseResult.ok ? updateSceneReferences(formParseResult.shots, scenes, next) : null;
+    if (shotList) setJsonInput(serializeShotList(shotList));
+    setShots(prev => updateSceneReferences(prev, scenes, next) ?? prev);
+    setScenes(next);
+  };
+
+  const toggleSceneGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
   const validateAndParseJson = (): ShotConfig[] | null => {
-    try {
-      const parsed = JSON.parse(jsonInput);
-      if (!Array.isArray(parsed)) {
-        setValidationError("JSON must be an array of shot objects.");
-        return null;
-      }
-      // Simple structural check
-      const valid = parsed.every(item => item.shot_type && item.prompt);
-      if (!valid) {
-        setValidationError("Each shot must have 'shot_type' and 'prompt' fields.");
-        return null;
-      }
+    if (!shotListResult.ok) {
+      // Issues are already listed under the editor
       setValidationError(null);
-      return parsed;
-    } catch (e) {
-      setValidationError("Invalid JSON format.");
       return null;
     }
+    setValidationError(null);
+    return shotListResult.shots;
   };
 
-  const handleGenerate = async () => {
-    if (!refImage) {
-      alert("Please upload a Character Reference Image first.");
-      return;
-    }
+  const handleFormChange = (edited: ShotConfig[]) => {
+    const next = assignShotIds(edited);
+    const json = serializeShotList(next);
+    lastFormEdit.current = { json, shots: next };
+    setJsonInput(json);
+  };
+
+  // Move the editor caret to a reported problem
+  const handleJumpToIssue = (issue: ShotListIssue) => {
+    setShotListView('json');
+    // Wait for the JSON view to mount before focusing it
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(issue.offset, Math.min(issue.offset + 1, jsonInput.length));
+    });
+  };
 
+  // Renders the shot list. With `isChangedOnly`, shots whose frames were
+  // rendered from the same config keep them and are not queued.
+  const startGeneration = (isChangedOnly: boolean) => {
     const shotConfigs = validateAndParseJson();
     if (!shotConfigs) return;
 
-    if (!hasApiKey) {
-      setValidationError("API Key missing in environment (process.env.API_KEY).");
+    // Every shot needs references for the characters it names
+    const numbers = getShotNumbers(shotConfigs, scenes);
+    for (let i = 0; i < shotConfigs.length; i++) {
+      const problem = findShotCastProblem(cast, shotConfigs[i]);
+      if (problem) {
+        setValidationError(`Shot ${numbers[i]}: ${problem}`);
+        return;
+      }
+    }
+
+    if (!isProviderReady) {
+      setValidationError(`${provider.label} is not available. Check the API key in the environment (process.env.API_KEY).`);
       return;
     }
 
-    setIsGenerating(true);
-    
-    // Initialize empty result cards
-    const initialShots: GeneratedShot[] = shotConfigs.map(config => ({
-      ...config,
-      id: generateId(),
-      status: GenerationStatus.PENDING
-    }));
+    // Drop anything still running from a previous batch
+    queue.cancelAll();
+
+    // Earlier takes follow their shot by id, so reordering the list keeps them.
+    // Shots without an id yet take over the Dailies shot in the same slot.
+    const configs = assignShotIds(shotConfigs, shots.map(s => s.id));
+    if (configs.some((config, i) => config !== shotConfigs[i])) {
+      setJsonInput(serializeShotList(configs));
+    }
+    const initialShots: GeneratedShot[] = configs.map(config => {
+      const previous = shots.find(s => s.id === config.id);
+      const isKept = isChangedOnly && hasCurrentFrame(config);
+      return {
+        ...config,
+        id: config.id!,
+        takes: previous?.takes ?? [],
+        circledTakeId: previous?.circledTakeId,
+        review: previous?.review,
+        status: isKept ? GenerationStatus.SUCCESS : GenerationStatus.QUEUED
+      };
+    });
     setShots(initialShots);
+    initialShots.filter(shot => shot.status === GenerationStatus.QUEUED).forEach(enqueueShot);
+  };
 
-    // Process sequentially to handle potential rate limits elegantly
-    // We update the state item-by-item
-    for (let i = 0; i < initialShots.length; i++) {
-      const shot = initialShots[i];
-      
-      try {
-        const imageUrl = await generateStoryboardFrame(refImage, shot);
-        
-        setShots(prev => prev.map(s => 
-          s.id === shot.id 
-            ? { ...s, status: GenerationStatus.SUCCESS, imageUrl } 
-            : s
-        ));
-      } catch (error: any) {
-        setShots(prev => prev.map(s => 
-          s.id === shot.id 
-            ? { ...s, status: GenerationStatus.ERROR, error: error.message } 
-            : s
-        ));
-      }
+  const handleGenerate = () => startGeneration(false);
 
-      // Small delay between requests to be nice to the API
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
+  const handleRenderChanged = () => {
+    setIsSnapshotsOpen(false);
+    startGeneration(true);
+  };
 
-    setIsGenerating(false);
+  const handleCreateSnapshot = (name: string) => {
+    setSnapshots(prev => [...prev, createSnapshot(name, currentSnapshotShots, shots, scenes)]);
   };
 
-  const handleRetry = async (shotId: string) => {
-    // Check if reference image is available
-    if (!refImage) {
+  // Only the shot list comes back; the Dailies keep their takes and follow it by id
+  const handleRestoreSnapshot = (snapshot: ProjectSnapshot) => {
+    setJsonInput(serializeShotList(snapshot.shots.map(({ take, ...config }) => config)));
+    setIsSnapshotsOpen(false);
+  };
+
+  // Logs each provider request against its shot for the diagnostics panel
+  const createDiagnosticReporter = (shotId: string, operation: DiagnosticEntry['operation'], activeProvider: ImageProvider) =>
+    (diagnostic: RequestDiagnostic) => setDiagnostics(prev => appendDiagnostic(prev, {
+      ...diagnostic,
+      id: generateId(),
+      shotId,
+      operation,
+      provider: activeProvider.label,
+      model: activeProvider.model,
+      recordedAt: Date.now(),
+    }));
+
+  // Rate limiting, retries and cancellation are handled by the queue
+  const enqueueShot = (shot: GeneratedShot) => {
+    const activeProvider = provider;
+    const fullCast = cast;
+    const settings = referenceSettings;
+    const style = resolveShotStyle(styles, styleId, shot);
+    const config = expandShotPrompt(toShotConfig(shot), snippets, scenes);
+    const fit = frameFit;
+    const seed = createSeed();
+    const notes = getRenderNotes(shot.review);
+    const onDiagnostic = createDiagnosticReporter(shot.id, 'generate', activeProvider);
+    queue.enqueue(shot.id, async (signal) => {
+      // Only the chosen reference angles are sent, encoded per the project settings
+      const shotCast = await prepareShotCast(fullCast, config, settings);
+      const frame = await activeProvider.generateFrame({
+        cast: shotCast,
+        shot: config,
+        size: getFrameSize(shot.aspect_ratio),
+        style,
+        seed,
+        notes,
+        signal,
+        onDiagnostic,
+      });
+      // Providers may only support a few output ratios
+      const imageUrl = await conformImageToAspectRatio(frame, parseAspectRatio(shot.aspect_ratio), fit);
+      // A camera move can also get its last frame, drawn from the first
+      const endImageUrl = hasEndFrame(config)
+        ? await conformImageToAspectRatio(await activeProvider.generateFrame({
+            cast: shotCast,
+            shot: config,
+            size: getFrameSize(shot.aspect_ratio),
+            style,
+            seed,
+            startFrame: imageUrl,
+            notes,
+            signal,
+            onDiagnostic,
+          }), parseAspectRatio(shot.aspect_ratio), fit)
+        : undefined;
+      const consistency = await scoreConsistency(imageUrl, shotCast, config);
+      return {
+        imageUrl,
+        endImageUrl,
+        prompt: shot.prompt,
+        seed,
+        model: activeProvider.model,
+        consistency,
+        reviewNotes: notes.length > 0 ? notes : undefined,
+        config: toShotConfig(shot),
+      };
+    });
+  };
+
+  // Renders a shot again; the frame is added as a new take
+  const handleRetry = (shotId: string) => {
+    const shotToRetry = shots.find(s => s.id === shotId);
+    if (!shotToRetry) return;
+
+    // Check that the shot's character references are available
+    const castProblem = findShotCastProblem(cast, shotToRetry);
+    if (castProblem) {
       setShots(prev => prev.map(s => 
         s.id === shotId 
-          ? { ...s, status: GenerationStatus.ERROR, error: "Reference image missing. Please re-upload Character Ref." } 
+          ? { ...s, status: GenerationStatus.ERROR, error: castProblem, failure: undefined }
           : s
       ));
       return;
     }
 
-    // Find the shot to retry
-    const shotToRetry = shots.find(s => s.id === shotId);
-    if (!shotToRetry) return;
+    updateShot(shotId, { status: GenerationStatus.QUEUED, error: undefined, failure: undefined });
+    enqueueShot(shotToRetry);
+  };
+
+  const handleCancelShot = (shotId: string) => {
+    queue.cancel(shotId);
+  };
+
+  // Queues a region edit; the result is added as a new take next to its source
+  const handleEditSubmit = (mask: string, instruction: string) => {
+    if (!editShot || !editTake || !provider.editFrame) return;
+    const activeProvider = provider;
+    const shot = editShot;
+    const source = editTake;
+    const fullCast = cast;
+    const settings = referenceSettings;
+    const style = resolveShotStyle(styles, styleId, shot);
+    const config = expandShotPrompt(toShotConfig(shot), snippets, scenes);
+    const fit = frameFit;
+    const onDiagnostic = createDiagnosticReporter(shot.id, 'edit', activeProvider);
+    setEditTarget(null);
+    updateShot(shot.id, { status: GenerationStatus.QUEUED, error: undefined, failure: undefined });
+    queue.enqueue(shot.id, async (signal) => {
+      const frame = await activeProvider.editFrame!({
+        image: source.imageUrl,
+        mask,
+        instruction,
+        shot: config,
+        size: getFrameSize(shot.aspect_ratio),
+        style,
+        signal,
+        onDiagnostic,
+      });
+      const imageUrl = await conformImageToAspectRatio(frame, parseAspectRatio(shot.aspect_ratio), fit);
+      return {
+        imageUrl,
+        prompt: source.prompt,
+        seed: source.seed,
+        model: activeProvider.model,
+        edit: { sourceTakeId: source.id, instruction },
+        config: source.config,
+        consistency: await scoreConsistency(imageUrl, await prepareShotCast(fullCast, config, settings), config),
+      };
+    });
+  };
+
+  // Same prompt the providers build, for the shot list preview
+  const getPromptPreview = (shot: ShotConfig) => buildFramePrompt({
+    shot: expandShotPrompt(shot, snippets, scenes),
+    characterNames: resolveShotCast(cast, shot)
+      .filter(member => getShotReferences(member, shot).length > 0)
+      .map(member => member.name),
+    size: getFrameSize(shot.aspect_ratio),
+    style: resolveShotStyle(styles, styleId, shot),
+    movePosition: getMovePosition(shot),
+    notes: getRenderNotes(shots.find(s => s.id === shot.id)?.review),
+  });
+
+  // Shot prompt with its template expanded, for exports
+  const getFinalPrompt = (shot: GeneratedShot) => expandShotPrompt(toShotConfig(shot), snippets, scenes).prompt;
 
-    // Set status to PENDING
-    setShots(prev => prev.map(s => 
-      s.id === shotId 
-        ? { ...s, status: GenerationStatus.PENDING, error: undefined } 
-        : s
-    ));
+  const handleAnimaticAudioChange = (file: File | null) => {
+    if (animaticAudio) URL.revokeObjectURL(animaticAudio.url);
+    setAnimaticAudio(file ? { name: file.name, url: URL.createObjectURL(file) } : null);
+  };
+
+  const handleCircleTake = (shotId: string, takeId: string) => {
+    setShots(prev => prev.map(s => (s.id === shotId ? toggleCircledTake(s, takeId) : s)));
+  };
 
+  const handleReviewChange = (shotId: string, review: ShotReview) => {
+    updateShot(shotId, { review });
+  };
+
+  const handleReviewerNameChange = (name: string) => {
+    setReviewerNameState(name);
+    setReviewerName(name);
+  };
+
+  const handleDownloadAll = () => {
+    const name = projectMeta?.name ?? 'Storyboard';
+    downloadBlob(exportDailiesZip(shots, name, scenes, sequences), `${toFileSlug(name)}_dailies_${formatTimestamp()}.zip`);
+  };
+
+  const handleDailiesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
     try {
-      const imageUrl = await generateStoryboardFrame(refImage, shotToRetry);
-      
-      setShots(prev => prev.map(s => 
-        s.id === shotId 
-          ? { ...s, status: GenerationStatus.SUCCESS, imageUrl } 
-          : s
-      ));
+      const imported = await importDailiesZip(file);
+      setShots(imported.shots);
+      setJsonInput(imported.shotListJson);
+      if (imported.scenes) setScenes(imported.scenes);
+      if (imported.sequences) setSequences(imported.sequences);
+      setValidationError(null);
     } catch (error: any) {
-      setShots(prev => prev.map(s => 
-        s.id === shotId 
-          ? { ...s, status: GenerationStatus.ERROR, error: error.message } 
-          : s
-      ));
+      setValidationError(`Could not import ${file.name}: ${error.message}`);
+    }
+  };
+
+  // Notes written in a review bundle come back as comments and statuses
+  const handleReviewNotesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = applyReviewNotes(shots, parseReviewNotes(await file.text()));
+      setShots(result.shots);
+      setValidationError(result.unmatched > 0
+        ? `${result.unmatched} of the notes in ${file.name} are for shots no longer in the Dailies.`
+        : null);
+    } catch (error: any) {
+      setValidationError(`Could not import ${file.name}: ${error.message}`);
     }
   };
 
   const handleClear = () => {
+    queue.cancelAll();
     setShots([]);
-    setIsGenerating(false);
   };
 
   // --- Render ---
@@ -185,12 +687,51 @@ const App: React.FC = () => {
           </div>
         </div>
         
-        {!hasApiKey && (
-          <div className="flex items-center gap-2 text-amber-500 bg-amber-950/30 px-3 py-1 rounded border border-amber-900/50 text-xs">
-            <AlertTriangle className="w-4 h-4" />
-            <span>Missing API_KEY in env</span>
-          </div>
-        )}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleOpenBrowser}
+            disabled={isGenerating}
+            className="flex items-center gap-2 px-3 py-1 rounded-md border border-zinc-800 bg-zinc-900 hover:border-zinc-700 text-xs text-zinc-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Browse projects"
+          >
+            <FolderOpen className="w-4 h-4 text-blue-500" />
+            <span className="max-w-[200px] truncate">{projectMeta?.name ?? 'Loading...'}</span>
+          </button>
+          {!isProviderReady && (
+            <div className="flex items-center gap-2 text-amber-500 bg-amber-950/30 px-3 py-1 rounded border border-amber-900/50 text-xs">
+              <AlertTriangle className="w-4 h-4" />
+              <span>Missing API_KEY in env</span>
+            </div>
+          )}
+          <select
+            value={provider.id}
+            onChange={(e) => setProviderId(e.target.value)}
+            disabled={isGenerating}
+            className="bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1 text-xs font-mono text-zinc-300 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            title="Image provider"
+          >
+            {listProviders().map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsSnapshotsOpen(true)}
+            className="p-1.5 rounded-md border border-zinc-800 bg-zinc-900 hover:border-zinc-700 text-zinc-400 hover:text-white"
+            title="Snapshots and shot list changes"
+          >
+            <History className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsDiagnosticsOpen(true)}
+            className="relative p-1.5 rounded-md border border-zinc-800 bg-zinc-900 hover:border-zinc-700 text-zinc-400 hover:text-white"
+            title="Request diagnostics"
+          >
+            <Activity className="w-4 h-4" />
+            {diagnostics.some(entry => entry.errorCode) && (
+              <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-red-500" />
+            )}
+          </button>
+        </div>
       </header>
 
       <main className="flex flex-col lg:flex-row h-[calc(100vh-64px)] overflow-hidden">
@@ -199,60 +740,59 @@ const App: React.FC = () => {
         <aside className="w-full lg:w-[450px] bg-zinc-950 border-r border-zinc-800 flex flex-col h-full overflow-y-auto">
           <div className="p-6 space-y-8">
             
-            {/* 1. Character Reference */}
-            <section className="space-y-3">
-              <div className="flex justify-between items-center">
-                <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
-                  <span className="w-2 h-2 rounded-full bg-blue-500"></span>
-                  Character Ref
-                </h2>
-                {refImage && (
-                  <button onClick={() => setRefImage(null)} className="text-xs text-red-400 hover:text-red-300 flex items-center gap-1">
-                    <Trash2 className="w-3 h-3" /> Clear
-                  </button>
-                )}
-              </div>
-              
-              <div 
-                className={`relative group border-2 border-dashed rounded-xl transition-all duration-200 overflow-hidden ${
-                  refImage ? 'border-zinc-700 bg-zinc-900 h-64' : 'border-zinc-800 hover:border-blue-500/50 hover:bg-zinc-900/50 h-32'
-                }`}
-              >
-                {!refImage ? (
-                  <label className="flex flex-col items-center justify-center h-full cursor-pointer">
-                    <div className="p-3 bg-zinc-800 rounded-full mb-2 group-hover:bg-blue-600/20 group-hover:text-blue-400 transition-colors text-zinc-400">
-                      <ImageIcon className="w-6 h-6" />
-                    </div>
-                    <span className="text-xs text-zinc-400 font-medium">Click to upload Character Image</span>
-                    <input 
-                      ref={imageInputRef}
-                      type="file" 
-                      accept="image/png, image/jpeg" 
-                      className="hidden" 
-                      onChange={handleImageUpload} 
-                    />
-                  </label>
-                ) : (
-                  <div className="relative w-full h-full">
-                    <img src={refImage} alt="Reference" className="w-full h-full object-cover" />
-                    <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black/80 to-transparent p-3">
-                      <p className="text-xs text-white font-mono">REF_IMG_01.PNG</p>
-                    </div>
-                  </div>
-                )}
-              </div>
-            </section>
+            {/* 1. Cast */}
+            <CastPanel
+              cast={cast}
+              settings={referenceSettings}
+              onChange={setCast}
+              onSettingsChange={setReferenceSettings}
+            />
+
+            {/* 2. Look */}
+            <StylePanel
+              styles={styles}
+              projectStyleId={styleId}
+              onChange={setStyles}
+              onProjectStyleChange={setStyleId}
+            />
 
-            {/* 2. Shot List JSON */}
+            {/* 3. Snippets */}
+            <SnippetPanel snippets={snippets} onChange={setSnippets} />
+
+            {/* 4. Scenes */}
+            <ScenePanel
+              scenes={scenes}
+              sequences={sequences}
+              onScenesChange={handleScenesChange}
+              onSequencesChange={setSequences}
+            />
+
+            {/* 5. Shot List */}
             <section className="space-y-3 flex-grow flex flex-col">
               <div className="flex justify-between items-center">
                 <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
                   <span className="w-2 h-2 rounded-full bg-indigo-500"></span>
-                  Shot List (JSON)
+                  Shot List
                 </h2>
-                <div className="flex gap-2">
+                <div className="flex gap-2 items-center">
+                  <div className="flex rounded-md border border-zinc-800 overflow-hidden">
+                    <button
+                      onClick={() => setShotListView('form')}
+                      className={`px-1.5 py-0.5 ${shotListView === 'form' ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                      title="Form editor"
+                    >
+                      <LayoutList className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => setShotListView('json')}
+                      className={`px-1.5 py-0.5 ${shotListView === 'json' ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                      title="JSON editor"
+                    >
+                      <FileJson className="w-3 h-3" />
+                    </button>
+                  </div>
                   <button 
-                    onClick={() => setJsonInput(JSON.stringify(DEFAULT_SHOT_LIST, null, 2))}
+                    onClick={() => setJsonInput(serializeShotList(DEFAULT_SHOT_LIST))}
                     className="text-[10px] uppercase font-bold text-zinc-500 hover:text-zinc-300"
                   >
                     Reset Default
@@ -263,7 +803,7 @@ const App: React.FC = () => {
                     <input 
                       ref={jsonInputRef}
                       type="file" 
-                      accept=".json"
+                      accept=".json,.fountain,.spmd,.fdx"
                       className="hidden" 
                       onChange={handleJsonUpload}
                     />
@@ -271,18 +811,68 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              <div className="relative flex-grow min-h-[200px]">
-                <textarea
-                  value={jsonInput}
-                  onChange={(e) => setJsonInput(e.target.value)}
-                  className="w-full h-full bg-zinc-900 border border-zinc-800 rounded-lg p-3 font-mono text-xs text-zinc-300 focus:outline-none focus:ring-1 focus:ring-blue-500/50 resize-y"
-                  spellCheck={false}
-                />
-                <div className="absolute top-2 right-2 pointer-events-none">
-                  <FileJson className="w-4 h-4 text-zinc-700" />
+              {shotListView === 'form' ? (
+                isFormEditable ? (
+                  <ShotListEditor
+                    shots={formShots}
+                    castNames={cast.map(member => member.name)}
+                    styleNames={styles.map(style => style.name)}
+                    scenes={scenes}
+                    onChange={handleFormChange}
+                    getPromptPreview={getPromptPreview}
+                  />
+                ) : (
+                  <div className="p-4 border-2 border-dashed border-zinc-800 rounded-lg text-xs text-zinc-500 text-center">
+                    The JSON has errors the form can't represent. Fix them in the{' '}
+                    <button onClick={() => setShotListView('json')} className="text-blue-500 hover:text-blue-400">JSON view</button>.
+                  </div>
+                )
+              ) : (
+                <div className="relative flex-grow min-h-[200px]">
+                  <textarea
+                    ref={textareaRef}
+                    value={jsonInput}
+                    onChange={(e) => setJsonInput(e.target.value)}
+                    className="w-full h-full bg-zinc-900 border border-zinc-800 rounded-lg p-3 font-mono text-xs text-zinc-300 focus:outline-none focus:ring-1 focus:ring-blue-500/50 resize-y"
+                    spellCheck={false}
+                  />
+                  <div className="absolute top-2 right-2 pointer-events-none">
+                    <FileJson className="w-4 h-4 text-zinc-700" />
+                  </div>
                 </div>
-              </div>
+              )}
               
+              {!shotListResult.ok && (
+                <ul className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400 text-xs space-y-1.5 max-h-40 overflow-y-auto">
+                  {shotListResult.issues.map((issue, i) => (
+                    <li key={i}>
+                      <button
+                        onClick={() => handleJumpToIssue(issue)}
+                        className="flex gap-2 items-start text-left hover:text-red-300"
+                        title="Jump to this position"
+                      >
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        <span>
+                          <span className="font-mono text-red-300">Ln {issue.line}, Col {issue.column}</span> {issue.message}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {shotListResult.ok && shotListResult.version !== null && shotListResult.version < SHOT_LIST_VERSION && (
+                <div className="p-3 bg-amber-950/30 border border-amber-900/50 rounded-md text-amber-400 text-xs flex gap-2 items-center justify-between">
+                  <span>This shot list uses format v{shotListResult.version}.</span>
+                  <button
+                    onClick={() => setJsonInput(serializeShotList(shotListResult.shots))}
+                    className="uppercase font-bold text-[10px] text-amber-300 hover:text-amber-200"
+                  >
+                    Upgrade to v{SHOT_LIST_VERSION}
+                  </button>
+                </div>
+              )}
+
               {validationError && (
                 <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400 text-xs flex gap-2 items-start">
                   <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
@@ -294,15 +884,32 @@ const App: React.FC = () => {
 
           {/* Action Bar */}
           <div className="p-6 border-t border-zinc-800 bg-zinc-950 sticky bottom-0 z-10">
+            <RenderSettings
+              settings={queueSettings}
+              onChange={setQueueSettings}
+              frameFit={frameFit}
+              onFrameFitChange={setFrameFit}
+            />
             <Button 
               onClick={handleGenerate} 
               isLoading={isGenerating} 
-              disabled={!refImage || !jsonInput || !hasApiKey}
+              disabled={!shotListResult.ok || !isProviderReady}
               className="w-full py-3 text-base shadow-lg shadow-blue-900/20"
               icon={<Play className="w-4 h-4 fill-current" />}
             >
               {isGenerating ? 'Rendering Storyboard...' : 'Generate Storyboard'}
             </Button>
+            {shots.length > 0 && !isGenerating && changedShotCount !== null && changedShotCount < shotListResult.shots.length && (
+              <button
+                onClick={handleRenderChanged}
+                disabled={changedShotCount === 0 || !isProviderReady}
+                className="w-full mt-2 flex items-center justify-center gap-1.5 text-xs text-zinc-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Unchanged shots keep their frames. Edits to prompt snippets, styles and cast references don't count as changes."
+              >
+                <RefreshCw className="w-3 h-3" />
+                {changedShotCount === 0 ? 'No shots changed since the last render' : `Render only the ${changedShotCount} changed ${changedShotCount === 1 ? 'shot' : 'shots'}`}
+              </button>
+            )}
           </div>
         </aside>
 
@@ -316,8 +923,13 @@ const App: React.FC = () => {
               </div>
               <p className="font-mono text-sm">NO DAILIES AVAILABLE</p>
               <p className="text-sm text-zinc-500 max-w-xs text-center">
-                Upload a character reference and define your shots to begin the visualization process.
+                Add your cast with reference images and define your shots to begin the visualization process.
               </p>
+              <label className="text-xs text-blue-500 hover:text-blue-400 cursor-pointer flex items-center gap-1">
+                <Archive className="w-3 h-3" />
+                Import Dailies ZIP
+                <input type="file" accept=".zip" className="hidden" onChange={handleDailiesUpload} />
+              </label>
             </div>
           ) : (
             <div className="space-y-6">
@@ -325,25 +937,231 @@ const App: React.FC = () => {
                 <div>
                   <h2 className="text-2xl font-light text-white tracking-tight">Dailies</h2>
                   <p className="text-zinc-500 text-sm font-mono mt-1">
-                    SESSION_ID: {shots.length > 0 ? shots[0].id.substring(0, 4).toUpperCase() : '---'} • {shots.length} SHOTS
+                    {projectMeta?.name.toUpperCase() ?? '---'} • {reviewFilter ? `${reviewCounts[reviewFilter]} OF ${shots.length}` : shots.length} SHOTS
                   </p>
+                  <div className="flex gap-1 mt-3">
+                    {GUIDE_TOGGLES.map(({ key, label, icon: Icon }) => (
+                      <button
+                        key={key}
+                        onClick={() => setFramingGuides(prev => ({ ...prev, [key]: !prev[key] }))}
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded border text-[10px] font-mono uppercase ${framingGuides[key] ? 'border-blue-500/50 bg-blue-500/10 text-blue-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                        title={`Toggle ${label.toLowerCase()} overlay`}
+                      >
+                        <Icon className="w-3 h-3" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-1 mt-2">
+                    <Filter className="w-3 h-3 text-zinc-600 mr-1" />
+                    <button
+                      onClick={() => setReviewFilter(null)}
+                      className={`px-2 py-0.5 rounded border text-[10px] font-mono uppercase ${!reviewFilter ? 'border-blue-500/50 bg-blue-500/10 text-blue-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                      All {shots.length}
+                    </button>
+                    {REVIEW_STATUSES.map(status => (
+                      <button
+                        key={status}
+                        onClick={() => setReviewFilter(reviewFilter === status ? null : status)}
+                        className={`px-2 py-0.5 rounded border text-[10px] font-mono uppercase ${reviewFilter === status ? REVIEW_STATUS_CLASSES[status] : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                        title={`Show only ${status.toLowerCase()} shots`}
+                      >
+                        {status} {reviewCounts[status]}
+                      </button>
+                    ))}
+                  </div>
                 </div>
                 {shots.length > 0 && !isGenerating && (
-                   <Button variant="ghost" onClick={handleClear} className="text-xs">
-                     <Trash2 className="w-4 h-4 mr-1" /> Clear Session
-                   </Button>
+                  <div className="flex gap-2">
+                    <Button variant="secondary" onClick={() => setAnimatic({})} className="text-xs" title="Play the frames as a timed sequence">
+                      <Play className="w-4 h-4 mr-1" /> Animatic
+                    </Button>
+                    <Button variant="secondary" onClick={() => setIsExportOpen(true)} className="text-xs">
+                      <FileDown className="w-4 h-4 mr-1" /> Export Storyboard
+                    </Button>
+                    <Button variant="secondary" onClick={handleDownloadAll} className="text-xs" title="Download all frames, the shot list and a manifest as ZIP">
+                      <Archive className="w-4 h-4 mr-1" /> Download All
+                    </Button>
+                    <label className="inline-flex items-center px-4 py-2 rounded-md text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 cursor-pointer transition-colors" title="Restore Dailies from a ZIP export">
+                      <Upload className="w-4 h-4 mr-1" /> Import ZIP
+                      <input type="file" accept=".zip" className="hidden" onChange={handleDailiesUpload} />
+                    </label>
+                    <label className="inline-flex items-center px-4 py-2 rounded-md text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 cursor-pointer transition-colors" title="Import notes exported from a review HTML file">
+                      <MessageSquare className="w-4 h-4 mr-1" /> Import Notes
+                      <input type="file" accept=".json,application/json" className="hidden" onChange={handleReviewNotesUpload} />
+                    </label>
+                    <Button variant="ghost" onClick={handleClear} className="text-xs">
+                      <Trash2 className="w-4 h-4 mr-1" /> Clear Session
+                    </Button>
+                  </div>
+                )}
+                {isGenerating && (
+                  <QueueStatus
+                    progress={queueProgress!}
+                    onPause={queue.pause}
+                    onResume={queue.resume}
+                    onCancelAll={queue.cancelAll}
+                  />
                 )}
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 pb-20">
-                {shots.map((shot, index) => (
-                  <ShotCard key={shot.id} shot={shot} index={index} onRetry={handleRetry} />
-                ))}
+              <div className="space-y-8 pb-20">
+                {reviewFilter && visibleGroups.length === 0 && (
+                  <p className="text-sm text-zinc-500 font-mono">NO {reviewFilter.toUpperCase()} SHOTS</p>
+                )}
+                {visibleGroups.map((group, groupIndex) => {
+                  const isCollapsed = isGroupedByScene && collapsedGroups.has(group.key);
+                  // Sequence names head the first scene of each run
+                  const startsSequence = group.sequence && group.sequence !== visibleGroups[groupIndex - 1]?.sequence;
+                  return (
+                    <div key={group.key} className="space-y-4">
+                      {startsSequence && (
+                        <h3 className="text-xs font-mono uppercase tracking-widest text-amber-500/80">
+                          {group.sequence!.name || 'Untitled Sequence'}
+                        </h3>
+                      )}
+                      {isGroupedByScene && (
+                        <button
+                          onClick={() => toggleSceneGroup(group.key)}
+                          className="w-full flex items-center gap-2 pb-1.5 border-b border-zinc-800/60 text-left text-xs font-mono uppercase tracking-wider text-zinc-400 hover:text-zinc-200"
+                          title={isCollapsed ? 'Show shots' : 'Hide shots'}
+                        >
+                          {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                          <span className="text-zinc-200 truncate">{group.scene ? describeScene(group.scene) : 'No Scene'}</span>
+                          <span className="ml-auto shrink-0 text-zinc-600">
+                            {group.indices.length} {group.indices.length === 1 ? 'shot' : 'shots'}
+                          </span>
+                        </button>
+                      )}
+                      {!isCollapsed && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                          {group.indices.map(index => (
+                            <ShotCard
+                              key={shots[index].id}
+                              shot={shots[index]}
+                              number={shotNumbers[index]}
+                              onRetry={handleRetry}
+                              onCancel={handleCancelShot}
+                              onCircleTake={handleCircleTake}
+                              onCompareTakes={setCompareShotId}
+                              guides={framingGuides}
+                              onPlay={(shotId) => setAnimatic({ startShotId: shotId })}
+                              onEditTake={provider.editFrame ? (shotId, takeId) => setEditTarget({ shotId, takeId }) : undefined}
+                              onReview={(shotId, takeId) => setReviewTarget({ shotId, takeId })}
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
         </section>
       </main>
+
+      {isExportOpen && (
+        <ExportDialog
+          projectName={projectMeta?.name ?? 'Storyboard'}
+          shots={shots}
+          notes={shots.map(getFinalPrompt)}
+          scenes={scenes}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isDiagnosticsOpen && (
+        <DiagnosticsPanel
+          entries={diagnostics}
+          shots={shots}
+          shotNumbers={shotNumbers}
+          onClear={() => setDiagnostics([])}
+          onClose={() => setIsDiagnosticsOpen(false)}
+        />
+      )}
+
+      {animatic && (
+        <AnimaticPlayer
+          projectName={projectMeta?.name ?? 'Storyboard'}
+          shots={shots}
+          captions={shots.map(getFinalPrompt)}
+          scenes={scenes}
+          startShotId={animatic.startShotId}
+          guides={framingGuides}
+          audio={animaticAudio}
+          onAudioChange={handleAnimaticAudioChange}
+          onClose={() => setAnimatic(null)}
+        />
+      )}
+
+      {compareShot && (
+        <TakeCompareDialog
+          shot={compareShot}
+          number={shotNumbers[shots.indexOf(compareShot)]}
+          onCircleTake={(takeId) => handleCircleTake(compareShot.id, takeId)}
+          onClose={() => setCompareShotId(null)}
+        />
+      )}
+
+      {editShot && editTake && (
+        <RegionEditDialog
+          shot={editShot}
+          take={editTake}
+          number={shotNumbers[shots.indexOf(editShot)]}
+          onCancel={() => setEditTarget(null)}
+          onSubmit={handleEditSubmit}
+        />
+      )}
+
+      {isSnapshotsOpen && (
+        <SnapshotDialog
+          snapshots={snapshots}
+          current={currentSnapshotShots}
+          scenes={scenes}
+          changedCount={changedShotCount}
+          onCreate={handleCreateSnapshot}
+          onDelete={(id) => setSnapshots(prev => prev.filter(snapshot => snapshot.id !== id))}
+          onRestore={handleRestoreSnapshot}
+          onRenderChanged={handleRenderChanged}
+          onClose={() => setIsSnapshotsOpen(false)}
+        />
+      )}
+
+      {reviewShot && (
+        <ReviewDialog
+          shot={reviewShot}
+          number={shotNumbers[shots.indexOf(reviewShot)]}
+          initialTakeId={reviewTarget!.takeId}
+          reviewerName={reviewerName}
+          onReviewerNameChange={handleReviewerNameChange}
+          onChange={(review) => handleReviewChange(reviewShot.id, review)}
+          onClose={() => setReviewTarget(null)}
+        />
+      )}
+
+      {pendingScreenplay && (
+        <ScreenplayImportDialog
+          fileName={pendingScreenplay.fileName}
+          screenplay={pendingScreenplay.screenplay}
+          castNames={cast.map(member => member.name)}
+          canAppend={shotListResult.ok}
+          onCancel={() => setPendingScreenplay(null)}
+          onImport={handleScreenplayImport}
+        />
+      )}
+
+      {isBrowserOpen && (
+        <ProjectBrowser
+          currentProjectId={projectMeta?.id ?? null}
+          onClose={() => setIsBrowserOpen(false)}
+          onOpen={handleOpenProject}
+          onCreate={handleCreateProject}
+          onRenameCurrent={handleRenameCurrent}
+          onDeleteCurrent={handleDeleteCurrent}
+        />
+      )}
     </div>
   );
 };
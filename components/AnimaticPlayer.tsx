@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedShot, Scene } from '../types';
+import { Film, Maximize2, Minimize2, Music, Pause, Play, SkipBack, SkipForward, Video, X } from 'lucide-react';
+import {
+  AnimaticAudio,
+  AnimaticClip,
+  AnimaticTransition,
+  buildAnimaticTimeline,
+  findClipIndex,
+  formatTimecode,
+  getAnimaticFrame,
+} from '../services/animatic';
+import { findScene, getShotNumbers } from '../services/sceneService';
+import { FramingGuideOptions } from '../utils/framingGuides';
+import { FramingGuides } from './FramingGuides';
+import { VideoExportPanel } from './VideoExportPanel';
+
+interface AnimaticPlayerProps {
+  projectName: string;
+  shots: GeneratedShot[];
+  captions: string[]; // Final prompt per shot, for burned-in captions
+  scenes: Scene[];
+  startShotId?: string; // Shot to open on
+  guides: FramingGuideOptions;
+  audio: AnimaticAudio | null;
+  onAudioChange: (file: File | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Plays the Dailies as a timed sequence, with an optional audio track.
+ */
+export const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ projectName, shots, captions, scenes, startShotId, guides, audio, onAudioChange, onClose }) => {
+  const timeline = useMemo(() => buildAnimaticTimeline(shots), [shots]);
+  const shotNumbers = useMemo(() => getShotNumbers(shots, scenes), [shots, scenes]);
+  const [time, setTime] = useState(() => timeline.clips.find(clip => clip.shotId === startShotId)?.start ?? 0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [transition, setTransition] = useState<AnimaticTransition>('cut');
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  const frame = getAnimaticFrame(timeline, time, transition);
+  const clipIndex = findClipIndex(timeline, time);
+  const currentShot = frame ? shots[frame.clip.index] : undefined;
+  const currentNumber = frame ? shotNumbers[frame.clip.index] : undefined;
+  const currentScene = findScene(scenes, currentShot?.scene);
+
+  // Frames are fitted to the stage at their own aspect ratio
+  useEffect(() => {
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stageRef.current!);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  // Follows the audio while it plays, otherwise the wall clock
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const el = audioRef.current;
+      const next = el && !el.paused && !el.ended ? el.currentTime : timeRef.current + (now - last) / 1000;
+      last = now;
+      if (next >= timeline.totalDuration) {
+        setTime(timeline.totalDuration);
+        setIsPlaying(false);
+        return;
+      }
+      setTime(next);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, timeline.totalDuration]);
+
+  const syncAudio = (at: number, playing: boolean) => {
+    const el = audioRef.current;
+    if (!el) return;
+    if (!playing || (Number.isFinite(el.duration) && at >= el.duration)) {
+      el.pause();
+      return;
+    }
+    if (Math.abs(el.currentTime - at) > 0.1) el.currentTime = at;
+    el.play().catch(e => console.error("Audio playback failed:", e));
+  };
+
+  useEffect(() => {
+    syncAudio(timeRef.current, isPlaying);
+  }, [isPlaying, audio]);
+
+  const seek = (at: number) => {
+    const clamped = Math.max(0, Math.min(at, timeline.totalDuration));
+    setTime(clamped);
+    syncAudio(clamped, isPlaying);
+  };
+
+  const togglePlay = () => {
+    if (timeline.clips.length === 0) return;
+    if (!isPlaying && time >= timeline.totalDuration) seek(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const stepClip = (offset: number) => {
+    const target = timeline.clips[Math.max(0, Math.min(clipIndex + offset, timeline.clips.length - 1))];
+    if (target) seek(target.start);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen().catch(e => console.error("Fullscreen failed:", e));
+    }
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === ' ') {
+        e.preventDefault();
+        togglePlay();
+      } else if (e.key === 'ArrowLeft') {
+        stepClip(-1);
+      } else if (e.key === 'ArrowRight') {
+        stepClip(1);
+      } else if (e.key === 'Escape' && !document.fullscreenElement) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // Drag anywhere on the timeline to scrub
+  const scrubTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * timeline.totalDuration);
+  };
+
+  const renderClip = (clip: AnimaticClip, opacity: number) => {
+    const width = Math.min(stageSize.width, stageSize.height * clip.ratio);
+    const height = width / clip.ratio;
+    return (
+      <div
+        key={clip.shotId}
+        className="absolute overflow-hidden"
+        style={{ width, height, left: (stageSize.width - width) / 2, top: (stageSize.height - height) / 2, opacity }}
+      >
+        {clip.imageUrl ? (
+          <img src={clip.imageUrl} alt={`Shot ${shotNumbers[clip.index]}`} className="w-full h-full object-contain" />
+        ) : (
+          <div className="w-full h-full border border-dashed border-zinc-800 flex items-center justify-center text-xs font-mono uppercase text-zinc-600">
+            Shot {shotNumbers[clip.index]} • No frame yet
+          </div>
+        )}
+        <FramingGuides options={guides} />
+      </div>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-[100] bg-black flex flex-col">
+      {audio && <audio ref={audioRef} src={audio.url} preload="auto" />}
+
+      <div className="flex items-center justify-between px-5 py-3 border-b border-zinc-900 text-xs font-mono uppercase text-zinc-400">
+        <span className="flex items-center gap-2">
+          <Film className="w-4 h-4 text-blue-500" />
+          Animatic
+          {currentShot && (
+            <span className="text-zinc-500">
+              • <span className="text-blue-500 font-bold">{currentNumber}</span> {currentShot.shot_type}
+              {currentShot.scene && ` • ${currentScene?.heading || currentShot.scene}`}
+            </span>
+          )}
+        </span>
+        <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div ref={stageRef} className="relative flex-1 m-4" onClick={togglePlay}>
+        {frame && renderClip(frame.clip, 1)}
+        {frame?.next && renderClip(frame.next, frame.mix)}
+      </div>
+
+      <div className="relative px-5 pb-4 space-y-3">
+        {isExportOpen && (
+          <VideoExportPanel
+            projectName={projectName}
+            shots={shots}
+            transition={transition}
+            audio={audio}
+            captions={captions}
+            scenes={scenes}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+
+        <div
+          className="relative h-10 flex rounded-md overflow-hidden bg-zinc-900 cursor-pointer touch-none select-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            scrubTo(e);
+          }}
+          onPointerMove={(e) => e.currentTarget.hasPointerCapture(e.pointerId) && scrubTo(e)}
+        >
+          {timeline.clips.map(clip => (
+            <div
+              key={clip.shotId}
+              className={`h-full border-r border-black bg-cover bg-center ${clip.index === clipIndex ? '' : 'opacity-50'}`}
+              style={{ flex: `${clip.duration} 0 0`, backgroundImage: clip.imageUrl ? `url(${clip.imageUrl})` : undefined }}
+              title={`Shot ${shotNumbers[clip.index]} • ${clip.duration}s`}
+            />
+          ))}
+          {timeline.totalDuration > 0 && (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-blue-500 pointer-events-none"
+              style={{ left: `${(time / timeline.totalDuration) * 100}%` }}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 text-xs font-mono text-zinc-400">
+          <button onClick={() => stepClip(-1)} className="p-1.5 hover:text-white" title="Previous shot">
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button onClick={togglePlay} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white" title={isPlaying ? "Pause (Space)" : "Play (Space)"}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={() => stepClip(1)} className="p-1.5 hover:text-white" title="Next shot">
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <span>{formatTimecode(time)} / {formatTimecode(timeline.totalDuration)}</span>
+
+          <div className="ml-auto flex items-center gap-3">
+            <div className="flex rounded-md border border-zinc-800 overflow-hidden uppercase text-[10px]">
+              {(['cut', 'crossfade'] as AnimaticTransition[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setTransition(mode)}
+                  className={`px-2 py-1 ${transition === mode ? 'bg-zinc-800 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+
+            {audio ? (
+              <span className="flex items-center gap-1 max-w-[200px]">
+                <Music className="w-3.5 h-3.5 text-blue-500 shrink-0" />
+                <span className="truncate">{audio.name}</span>
+                <button onClick={() => onAudioChange(null)} className="p-0.5 hover:text-red-400" title="Remove audio">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ) : (
+              <label className="flex items-center gap-1 uppercase text-[10px] font-bold text-blue-500 hover:text-blue-400 cursor-pointer">
+                <Music className="w-3.5 h-3.5" />
+                Add Audio
+                <input
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) onAudioChange(file);
+                  }}
+                />
+              </label>
+            )}
+
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                setIsExportOpen(!isExportOpen);
+              }}
+              className={`p-1.5 hover:text-white ${isExportOpen ? 'text-blue-400' : ''}`}
+              title="Export as WebM video"
+            >
+              <Video className="w-4 h-4" />
+            </button>
+            <button onClick={toggleFullscreen} className="p-1.5 hover:text-white" title={isFullscreen ? "Exit fullscreen" : "Fullscreen"}>
+              {isFullscreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
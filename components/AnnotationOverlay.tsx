@@ -0,0 +1,72 @@
+import React from 'react';
+import { AnnotationPoint, AnnotationTool } from '../types';
+
+export interface AnnotationShape {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[];
+}
+
+interface AnnotationOverlayProps {
+  annotations: AnnotationShape[];
+  ratio: number; // Frame width / height, so arrow heads aren't stretched
+}
+
+// Stroke and arrow head sizes in percent of the frame height
+const STROKE_WIDTH = 0.6;
+const HEAD_LENGTH = 4;
+const HEAD_ANGLE = Math.PI / 7;
+
+const arrowHead = (tail: { x: number; y: number }, head: { x: number; y: number }) => {
+  const angle = Math.atan2(head.y - tail.y, head.x - tail.x);
+  const wing = (side: number) => ({
+    x: head.x - HEAD_LENGTH * Math.cos(angle + side * HEAD_ANGLE),
+    y: head.y - HEAD_LENGTH * Math.sin(angle + side * HEAD_ANGLE),
+  });
+  const [left, right] = [wing(-1), wing(1)];
+  return `M ${left.x} ${left.y} L ${head.x} ${head.y} L ${right.x} ${right.y}`;
+};
+
+/**
+ * Reviewer marks drawn over a frame, stretched over the parent.
+ */
+export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ annotations, ratio }) => {
+  if (annotations.length === 0) return null;
+  const width = 100 * ratio;
+  const toView = (point: AnnotationPoint) => ({ x: point.x * width, y: point.y * 100 });
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} 100`}
+      preserveAspectRatio="none"
+      fill="none"
+      strokeWidth={STROKE_WIDTH}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    >
+      {annotations.map(annotation => {
+        const points = annotation.points.map(toView);
+        if (points.length === 0) return null;
+        if (annotation.tool === 'arrow') {
+          const [tail, head = tail] = points;
+          return (
+            <path
+              key={annotation.id}
+              d={`M ${tail.x} ${tail.y} L ${head.x} ${head.y} ${arrowHead(tail, head)}`}
+              stroke={annotation.color}
+            />
+          );
+        }
+        return (
+          <polyline
+            key={annotation.id}
+            points={points.map(p => `${p.x},${p.y}`).join(' ')}
+            stroke={annotation.color}
+          />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { CastMember, ReferenceAngle, ReferenceImage, ReferenceSettings } from '../types';
+import { createCastMember } from '../services/castService';
+import {
+  importReferenceFile,
+  REFERENCE_FILE_ACCEPT,
+  REFERENCE_FORMATS,
+  REFERENCE_MAX_EDGE_OPTIONS,
+} from '../services/referenceService';
+import { ReferenceCropDialog } from './ReferenceCropDialog';
+import { ChevronDown, ChevronRight, Crop, ImagePlus, Plus, Trash2, X } from 'lucide-react';
+
+interface CastPanelProps {
+  cast: CastMember[];
+  settings: ReferenceSettings;
+  onChange: React.Dispatch<React.SetStateAction<CastMember[]>>;
+  onSettingsChange: (settings: ReferenceSettings) => void;
+}
+
+const selectClass = "w-full bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+// Angle given to each new upload, following on from those the character already has
+const nextAngle = (images: ReferenceImage[], offset: number): ReferenceAngle => {
+  const missing = Object.values(ReferenceAngle).filter(angle => !images.some(image => image.angle === angle));
+  return missing[offset] ?? ReferenceAngle.OTHER;
+};
+
+export const CastPanel: React.FC<CastPanelProps> = ({ cast, settings, onChange, onSettingsChange }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [cropping, setCropping] = useState<{ memberId: string; imageId: string } | null>(null);
+
+  const updateMember = (id: string, changes: Partial<CastMember>) => {
+    onChange(cast.map(member => (member.id === id ? { ...member, ...changes } : member)));
+  };
+
+  const updateImage = (member: CastMember, imageId: string, changes: Partial<ReferenceImage>) => {
+    updateMember(member.id, {
+      referenceImages: member.referenceImages.map(image => (image.id === imageId ? { ...image, ...changes } : image)),
+    });
+  };
+
+  const handleAddMember = () => {
+    onChange([...cast, createCastMember(`Character ${cast.length + 1}`)]);
+  };
+
+  const handleRemoveMember = (id: string) => {
+    onChange(cast.filter(member => member.id !== id));
+  };
+
+  const handleAddImages = async (member: CastMember, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setImportError(null);
+    const results = await Promise.allSettled(
+      files.map((file, i) => importReferenceFile(file, nextAngle(member.referenceImages, i)))
+    );
+    const images = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failures = results.flatMap(result => (result.status === 'rejected' ? [result.reason.message] : []));
+    if (failures.length > 0) setImportError(failures.join(' '));
+    // Decoding can take a while, so add to the cast as it is now rather than as it was
+    if (images.length > 0) {
+      onChange(prev => prev.map(current => (
+        current.id === member.id ? { ...current, referenceImages: [...current.referenceImages, ...images] } : current
+      )));
+    }
+  };
+
+  const handleRemoveImage = (member: CastMember, imageId: string) => {
+    updateMember(member.id, { referenceImages: member.referenceImages.filter(image => image.id !== imageId) });
+  };
+
+  const croppingMember = cropping && cast.find(member => member.id === cropping.memberId);
+  const croppingImage = croppingMember?.referenceImages.find(image => image.id === cropping!.imageId);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-blue-500"></span>
+          Cast
+        </h2>
+        <button
+          onClick={handleAddMember}
+          className="text-[10px] uppercase font-bold text-blue-500 hover:text-blue-400 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add Character
+        </button>
+      </div>
+
+      {cast.length === 0 && (
+        <p className="text-xs text-zinc-500 border-2 border-dashed border-zinc-800 rounded-xl p-4 text-center">
+          No characters yet. Add one to attach reference images.
+        </p>
+      )}
+
+      {importError && (
+        <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-xs text-red-400 flex items-start gap-2">
+          <span className="flex-1">{importError}</span>
+          <button onClick={() => setImportError(null)} className="hover:text-red-300" title="Dismiss">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {cast.map(member => (
+        <div key={member.id} className="border border-zinc-800 bg-zinc-900 rounded-xl p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={member.name}
+              onChange={(e) => updateMember(member.id, { name: e.target.value })}
+              className="flex-1 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+              placeholder="Character name"
+              spellCheck={false}
+            />
+            <button
+              onClick={() => handleRemoveMember(member.id)}
+              className="text-xs text-red-400 hover:text-red-300 flex items-center gap-1"
+              title="Remove character"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {member.referenceImages.map((image, index) => (
+              <div key={image.id} className="space-y-1">
+                <div className="relative group aspect-square rounded-md overflow-hidden bg-zinc-950">
+                  <img src={image.dataUrl} alt={`${member.name} ${image.angle}`} className="w-full h-full object-cover" />
+                  <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => setCropping({ memberId: member.id, imageId: image.id })}
+                      className="p-0.5 rounded bg-black/60 text-white"
+                      title="Crop or rotate"
+                    >
+                      <Crop className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveImage(member, image.id)}
+                      className="p-0.5 rounded bg-black/60 text-white"
+                      title="Remove image"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                <select
+                  value={image.angle}
+                  onChange={(e) => updateImage(member, image.id, { angle: e.target.value as ReferenceAngle })}
+                  className="w-full bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none"
+                  title={`Reference ${index + 1} angle`}
+                >
+                  {Object.values(ReferenceAngle).map(angle => (
+                    <option key={angle} value={angle}>{angle}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <label
+              className="aspect-square rounded-md border-2 border-dashed border-zinc-800 hover:border-blue-500/50 hover:bg-zinc-900/50 flex items-center justify-center cursor-pointer text-zinc-500 hover:text-blue-400 transition-colors"
+              title="Add reference images (JPEG, PNG, WebP, HEIC where supported)"
+            >
+              <ImagePlus className="w-5 h-5" />
+              <input
+                type="file"
+                accept={REFERENCE_FILE_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => handleAddImages(member, e)}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <div className="text-xs text-zinc-400">
+        <button
+          onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+          className="flex items-center gap-1 text-[10px] uppercase font-bold text-zinc-500 hover:text-zinc-300"
+        >
+          {isSettingsOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          Reference Upload • {settings.maxEdge}px {REFERENCE_FORMATS.find(f => f.value === settings.format)?.label}
+          {settings.format !== 'image/png' && ` ${Math.round(settings.quality * 100)}%`}
+        </button>
+        {isSettingsOpen && (
+          <div className="mt-2 p-3 border border-zinc-800 rounded-xl space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block space-y-1">
+                <span className="uppercase font-bold text-[10px] text-zinc-500">Max Size</span>
+                <select
+                  value={settings.maxEdge}
+                  onChange={(e) => onSettingsChange({ ...settings, maxEdge: Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  {REFERENCE_MAX_EDGE_OPTIONS.map(edge => (
+                    <option key={edge} value={edge}>{edge}px</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="uppercase font-bold text-[10px] text-zinc-500">Format</span>
+                <select
+                  value={settings.format}
+                  onChange={(e) => onSettingsChange({ ...settings, format: e.target.value as ReferenceSettings['format'] })}
+                  className={selectClass}
+                >
+                  {REFERENCE_FORMATS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {settings.format !== 'image/png' && (
+              <label className="block space-y-1">
+                <span className="uppercase font-bold text-[10px] text-zinc-500">Quality • {Math.round(settings.quality * 100)}%</span>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={settings.quality}
+                  onChange={(e) => onSettingsChange({ ...settings, quality: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+            )}
+            <p className="text-zinc-500">
+              References are scaled and re-encoded like this before each request. Larger sizes keep more detail but make requests slower and may exceed provider limits.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {croppingMember && croppingImage && (
+        <ReferenceCropDialog
+          reference={croppingImage}
+          title={`${croppingMember.name} • ${croppingImage.angle}`}
+          onCancel={() => setCropping(null)}
+          onSave={(updated) => {
+            updateImage(croppingMember, updated.id, { dataUrl: updated.dataUrl });
+            setCropping(null);
+          }}
+        />
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { GeneratedShot, GenerationErrorCode } from '../types';
+import { DiagnosticEntry, summarizeDiagnostics } from '../services/diagnosticsLog';
+import { ERROR_LABELS } from '../services/generationErrors';
+import { downloadBlob, formatBytes, formatTimestamp } from '../utils/download';
+import { Button } from './Button';
+import { Activity, ChevronDown, ChevronRight, Download, Trash2, X } from 'lucide-react';
+
+interface DiagnosticsPanelProps {
+  entries: DiagnosticEntry[]; // Newest first
+  shots: GeneratedShot[];
+  shotNumbers: string[]; // Production number per shot
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatLatency = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+/**
+ * Every provider request this session: prompt, payload size, latency and a
+ * summary of what came back.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ entries, shots, shotNumbers, onClear, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const summary = summarizeDiagnostics(entries);
+
+  const describeShot = (shotId: string) => {
+    const index = shots.findIndex(shot => shot.id === shotId);
+    return index >= 0 ? shotNumbers[index] : '—';
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `diagnostics_${formatTimestamp()}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-full flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <Activity className="w-4 h-4 text-blue-500" />
+            Diagnostics
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-zinc-800 flex flex-wrap gap-x-6 gap-y-1 text-[10px] font-mono uppercase text-zinc-500">
+          <span>Requests <span className="text-zinc-200">{summary.requests}</span></span>
+          <span>Failed <span className={summary.failures > 0 ? 'text-red-400' : 'text-zinc-200'}>{summary.failures}</span></span>
+          <span>Avg latency <span className="text-zinc-200">{summary.averageLatencyMs === null ? '—' : formatLatency(Math.round(summary.averageLatencyMs))}</span></span>
+          {(Object.entries(summary.failuresByCode) as [GenerationErrorCode, number][]).map(([code, count]) => (
+            <span key={code} className="text-red-400/80">{ERROR_LABELS[code]} × {count}</span>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {entries.length === 0 ? (
+            <p className="p-8 text-center text-xs text-zinc-500">No requests yet. Render a shot to see it here.</p>
+          ) : (
+            <table className="w-full text-xs text-zinc-400">
+              <thead className="sticky top-0 bg-zinc-950 text-[10px] font-mono uppercase text-zinc-500">
+                <tr className="border-b border-zinc-800">
+                  <th className="w-6"></th>
+                  <th className="text-left font-normal px-2 py-2">Time</th>
+                  <th className="text-left font-normal px-2 py-2">Shot</th>
+                  <th className="text-left font-normal px-2 py-2">Request</th>
+                  <th className="text-left font-normal px-2 py-2">Result</th>
+                  <th className="text-right font-normal px-2 py-2">Payload</th>
+                  <th className="text-right font-normal px-2 py-2 pr-5">Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                        className="border-b border-zinc-900 hover:bg-zinc-900/60 cursor-pointer font-mono"
+                      >
+                        <td className="pl-3 text-zinc-600">
+                          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        </td>
+                        <td className="px-2 py-1.5">{new Date(entry.recordedAt).toLocaleTimeString()}</td>
+                        <td className="px-2 py-1.5 text-blue-400">{describeShot(entry.shotId)}</td>
+                        <td className="px-2 py-1.5">{entry.operation} • {entry.model}</td>
+                        <td className={`px-2 py-1.5 ${entry.errorCode ? 'text-red-400' : 'text-emerald-400'}`}>
+                          {entry.errorCode ? ERROR_LABELS[entry.errorCode] : 'Frame'}
+                        </td>
+                        <td className="px-2 py-1.5 text-right">{formatBytes(entry.payloadBytes)}</td>
+                        <td className="px-2 py-1.5 pr-5 text-right">{formatLatency(entry.latencyMs)}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-zinc-900 bg-zinc-900/40">
+                          <td></td>
+                          <td colSpan={6} className="px-2 py-3 pr-5 space-y-2">
+                            <div className="text-[10px] font-mono uppercase text-zinc-500">{entry.provider} • Prompt</div>
+                            <pre className="p-2 rounded-md bg-zinc-950 border border-zinc-800 text-[10px] leading-relaxed whitespace-pre-wrap font-mono max-h-48 overflow-y-auto">
+                              {entry.prompt.trim()}
+                            </pre>
+                            <div className="text-[10px] font-mono uppercase text-zinc-500">Response</div>
+                            <pre className="p-2 rounded-md bg-zinc-950 border border-zinc-800 text-[10px] leading-relaxed whitespace-pre-wrap font-mono max-h-32 overflow-y-auto">
+                              {entry.response}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-zinc-800 flex justify-between items-center gap-2">
+          <span className="text-xs text-zinc-500">Kept for this session only. Prompts are included in the download.</span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClear} disabled={entries.length === 0} className="text-xs" icon={<Trash2 className="w-3 h-3" />}>
+              Clear
+            </Button>
+            <Button onClick={handleDownload} disabled={entries.length === 0} className="text-xs" icon={<Download className="w-3 h-3" />}>
+              Download JSON
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
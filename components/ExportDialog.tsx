@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { GeneratedShot, Scene } from '../types';
+import {
+  exportContactSheet,
+  exportStoryboardPdf,
+  PageOrientation,
+  PageSize,
+  PANELS_PER_PAGE_OPTIONS,
+} from '../services/storyboardExport';
+import { exportTimelineZip, TIMELINE_FRAME_RATES } from '../services/timelineExport';
+import { exportReviewBundle } from '../services/reviewBundle';
+import { downloadBlob, formatTimestamp, toFileSlug } from '../utils/download';
+import { Button } from './Button';
+import { FileDown, Film, Globe, Image as ImageIcon, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  projectName: string;
+  shots: GeneratedShot[];
+  notes: string[]; // Final prompt per shot, printed under storyboard panels and written as timeline clip notes and review captions
+  scenes: Scene[]; // For production shot numbers
+  onClose: () => void;
+}
+
+type ExportKind = 'pdf' | 'sheet' | 'timeline' | 'review';
+
+const selectClass = "w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ projectName, shots, notes, scenes, onClose }) => {
+  const [panelsPerPage, setPanelsPerPage] = useState(6);
+  const [orientation, setOrientation] = useState<PageOrientation>('landscape');
+  const [pageSize, setPageSize] = useState<PageSize>('letter');
+  const [includeTitlePage, setIncludeTitlePage] = useState(true);
+  const [fps, setFps] = useState(TIMELINE_FRAME_RATES[0]);
+  const [busy, setBusy] = useState<ExportKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseName = `${toFileSlug(projectName)}_storyboard_${formatTimestamp()}`;
+
+  const run = async (kind: ExportKind) => {
+    setBusy(kind);
+    setError(null);
+    try {
+      if (kind === 'pdf') {
+        const blob = await exportStoryboardPdf(shots, { projectName, panelsPerPage, orientation, pageSize, includeTitlePage, notes, scenes });
+        downloadBlob(blob, `${baseName}.pdf`);
+      } else if (kind === 'sheet') {
+        const blob = await exportContactSheet(shots, projectName, notes, scenes);
+        downloadBlob(blob, `${baseName}_contact-sheet.png`);
+      } else if (kind === 'timeline') {
+        const blob = exportTimelineZip(shots, { projectName, fps, notes, scenes });
+        downloadBlob(blob, `${toFileSlug(projectName)}_timeline_${formatTimestamp()}.zip`);
+      } else {
+        const blob = exportReviewBundle(shots, { projectName, captions: notes, scenes });
+        downloadBlob(blob, `${toFileSlug(projectName)}_review_${formatTimestamp()}.html`);
+      }
+    } catch (e: any) {
+      setError(e.message || "Export failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-md flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <FileDown className="w-4 h-4 text-blue-500" />
+            Export Storyboard
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 text-xs text-zinc-400">
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block space-y-1">
+              <span className="uppercase font-bold text-[10px] text-zinc-500">Panels / Page</span>
+              <select value={panelsPerPage} onChange={(e) => setPanelsPerPage(Number(e.target.value))} className={selectClass}>
+                {PANELS_PER_PAGE_OPTIONS.map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="uppercase font-bold text-[10px] text-zinc-500">Orientation</span>
+              <select value={orientation} onChange={(e) => setOrientation(e.target.value as PageOrientation)} className={selectClass}>
+                <option value="landscape">Landscape</option>
+                <option value="portrait">Portrait</option>
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="uppercase font-bold text-[10px] text-zinc-500">Paper</span>
+              <select value={pageSize} onChange={(e) => setPageSize(e.target.value as PageSize)} className={selectClass}>
+                <option value="letter">Letter</option>
+                <option value="a4">A4</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeTitlePage} onChange={(e) => setIncludeTitlePage(e.target.checked)} />
+            Title page with project name
+          </label>
+
+          <div className="pt-4 border-t border-zinc-800 flex items-end gap-3">
+            <label className="block space-y-1 w-24">
+              <span className="uppercase font-bold text-[10px] text-zinc-500">Timeline FPS</span>
+              <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+                {TIMELINE_FRAME_RATES.map(rate => (
+                  <option key={rate} value={rate}>{rate}</option>
+                ))}
+              </select>
+            </label>
+            <p className="flex-1 text-zinc-500 leading-relaxed">
+              EDL, FCPXML and OTIO with the frames as placeholder clips, for Premiere, Resolve or Avid.
+            </p>
+            <Button
+              variant="secondary"
+              onClick={() => run('timeline')}
+              isLoading={busy === 'timeline'}
+              disabled={busy !== null}
+              className="text-xs"
+              icon={<Film className="w-3 h-3" />}
+            >
+              Timeline
+            </Button>
+          </div>
+
+          <div className="pt-4 border-t border-zinc-800 flex items-center gap-3">
+            <p className="flex-1 text-zinc-500 leading-relaxed">
+              One HTML file for clients to review without the app. Their notes come back as a JSON file to import.
+            </p>
+            <Button
+              variant="secondary"
+              onClick={() => run('review')}
+              isLoading={busy === 'review'}
+              disabled={busy !== null}
+              className="text-xs"
+              icon={<Globe className="w-3 h-3" />}
+            >
+              Review HTML
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400">{error}</div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-zinc-800 flex justify-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => run('sheet')}
+            isLoading={busy === 'sheet'}
+            disabled={busy !== null}
+            className="text-xs"
+            icon={<ImageIcon className="w-3 h-3" />}
+          >
+            Contact Sheet
+          </Button>
+          <Button
+            onClick={() => run('pdf')}
+            isLoading={busy === 'pdf'}
+            disabled={busy !== null}
+            className="text-xs"
+            icon={<FileDown className="w-3 h-3" />}
+          >
+            PDF
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
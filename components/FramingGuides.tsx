@@ -0,0 +1,37 @@
+import React from 'react';
+import { FramingGuideOptions, getGuideShapes, GUIDE_STROKE } from '../utils/framingGuides';
+
+interface FramingGuidesProps {
+  options: FramingGuideOptions;
+}
+
+/**
+ * Safe-area, rule-of-thirds and center overlays, stretched over the parent.
+ */
+export const FramingGuides: React.FC<FramingGuidesProps> = ({ options }) => {
+  const shapes = getGuideShapes(options);
+  if (shapes.length === 0) return null;
+
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      fill="none"
+      stroke={GUIDE_STROKE}
+      strokeWidth={1}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    >
+      {shapes.map((shape, i) => {
+        const common = {
+          vectorEffect: 'non-scaling-stroke' as const,
+          strokeDasharray: shape.dashed ? '4 3' : undefined,
+        };
+        return shape.kind === 'line' ? (
+          <line key={i} x1={shape.x1} y1={shape.y1} x2={shape.x2} y2={shape.y2} {...common} />
+        ) : (
+          <rect key={i} x={shape.x1} y={shape.y1} width={shape.x2 - shape.x1} height={shape.y2 - shape.y1} {...common} />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { deleteProject, duplicateProject, listProjects, renameProject } from '../services/projectStore';
+import { Button } from './Button';
+import { Copy, FolderOpen, Pencil, Plus, Trash2, X, Clapperboard } from 'lucide-react';
+
+interface ProjectBrowserProps {
+  currentProjectId: string | null;
+  onClose: () => void;
+  onOpen: (id: string) => Promise<void>;
+  onCreate: () => void;
+  onRenameCurrent: (name: string) => void;
+  onDeleteCurrent: () => Promise<void>;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  currentProjectId,
+  onClose,
+  onOpen,
+  onCreate,
+  onRenameCurrent,
+  onDeleteCurrent,
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e: any) {
+      setError(e.message || "Failed to load projects");
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setEditingName(project.name);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!id || !name) return;
+
+    // The open project is owned by App and saved from there
+    if (id === currentProjectId) {
+      onRenameCurrent(name);
+      setProjects(prev => prev.map(p => (p.id === id ? { ...p, name } : p)));
+      return;
+    }
+    try {
+      await renameProject(id, name);
+      refresh();
+    } catch (e: any) {
+      setError(e.message || "Failed to rename project");
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      refresh();
+    } catch (e: any) {
+      setError(e.message || "Failed to duplicate project");
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      await onOpen(id);
+    } catch (e: any) {
+      setError(e.message || "Failed to open project");
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      if (project.id === currentProjectId) {
+        await onDeleteCurrent();
+      }
+      refresh();
+    } catch (e: any) {
+      setError(e.message || "Failed to delete project");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <FolderOpen className="w-4 h-4 text-blue-500" />
+            Projects
+          </h2>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={onCreate} className="text-xs py-1.5" icon={<Plus className="w-3 h-3" />}>
+              New Project
+            </Button>
+            <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-5 mt-4 p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400 text-xs">
+            {error}
+          </div>
+        )}
+
+        {/* Project List */}
+        <ul className="flex-1 overflow-y-auto p-3 space-y-2">
+          {projects.length === 0 && (
+            <li className="py-10 text-center text-zinc-600 font-mono text-sm">NO SAVED PROJECTS</li>
+          )}
+          {projects.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <li
+                key={project.id}
+                className={`flex items-center gap-3 p-2 rounded-lg border transition-colors ${
+                  isCurrent ? 'border-blue-500/50 bg-blue-950/20' : 'border-zinc-800 bg-zinc-900 hover:border-zinc-700'
+                }`}
+              >
+                <div className="w-20 aspect-video rounded bg-zinc-950 overflow-hidden flex items-center justify-center shrink-0">
+                  {project.thumbnailUrl ? (
+                    <img src={project.thumbnailUrl} alt={project.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <Clapperboard className="w-5 h-5 text-zinc-700" />
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {editingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+                    />
+                  ) : (
+                    <p className="text-sm text-zinc-100 truncate">{project.name}</p>
+                  )}
+                  <p className="text-[10px] text-zinc-500 font-mono uppercase mt-0.5">
+                    {project.shotCount} SHOTS • {new Date(project.updatedAt).toLocaleString()}
+                    {isCurrent && <span className="text-blue-400"> • OPEN</span>}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1 text-zinc-500">
+                  {!isCurrent && (
+                    <button onClick={() => handleOpen(project.id)} className="p-1.5 hover:text-white" title="Open">
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => startRename(project)} className="p-1.5 hover:text-white" title="Rename">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDuplicate(project.id)} className="p-1.5 hover:text-white" title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} className="p-1.5 hover:text-red-400" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { QueueProgress } from '../services/generationQueue';
+import { Pause, Play, Square } from 'lucide-react';
+
+interface QueueStatusProps {
+  progress: QueueProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancelAll: () => void;
+}
+
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+export const QueueStatus: React.FC<QueueStatusProps> = ({ progress, onPause, onResume, onCancelAll }) => {
+  const { total, completed, failed, cancelled, running, waiting, paused, etaMs } = progress;
+  const settled = completed + failed + cancelled;
+  const percent = total > 0 ? (settled / total) * 100 : 0;
+
+  return (
+    <div className="w-72 space-y-1.5">
+      <div className="flex justify-between items-center text-[10px] font-mono uppercase text-zinc-500">
+        <span>
+          {settled}/{total} done
+          {failed > 0 && <span className="text-red-400"> • {failed} failed</span>}
+          {' '}• {running} rendering • {waiting} queued
+        </span>
+        <span>{paused ? 'Paused' : etaMs === null ? 'ETA --' : `ETA ${formatEta(etaMs)}`}</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-500 ${paused ? 'bg-amber-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={paused ? onResume : onPause}
+          className="text-[10px] uppercase font-bold text-zinc-400 hover:text-white flex items-center gap-1"
+          title={paused ? "Resume starting new shots" : "Stop starting new shots; shots already rendering will finish"}
+        >
+          {paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        <button
+          onClick={onCancelAll}
+          className="text-[10px] uppercase font-bold text-red-400 hover:text-red-300 flex items-center gap-1"
+          title="Cancel every queued and rendering shot"
+        >
+          <Square className="w-3 h-3" />
+          Cancel All
+        </button>
+      </div>
+    </div>
+  );
+};
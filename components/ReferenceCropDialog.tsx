@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReferenceImage } from '../types';
+import { FULL_CROP, ReferenceCrop, transformReferenceImage } from '../services/referenceService';
+import { Crop, RotateCcw, RotateCw, X } from 'lucide-react';
+import { Button } from './Button';
+
+interface ReferenceCropDialogProps {
+  reference: ReferenceImage;
+  title: string;
+  onCancel: () => void;
+  onSave: (reference: ReferenceImage) => void;
+}
+
+// Drags smaller than this, as a fraction of the image, keep the previous crop
+const MIN_CROP = 0.05;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Rotate a reference in quarter turns and drag out the region to keep.
+ */
+export const ReferenceCropDialog: React.FC<ReferenceCropDialogProps> = ({ reference, title, onCancel, onSave }) => {
+  const [rotation, setRotation] = useState(0);
+  const [crop, setCrop] = useState<ReferenceCrop>(FULL_CROP);
+  const [preview, setPreview] = useState<{ url: string; ratio: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  // Show the image as rotated so the crop is drawn in the orientation it is saved in
+  useEffect(() => {
+    let cancelled = false;
+    transformReferenceImage(reference, rotation, FULL_CROP)
+      .then(({ dataUrl }) => {
+        const img = new Image();
+        img.onload = () => !cancelled && setPreview({ url: dataUrl, ratio: img.naturalWidth / img.naturalHeight });
+        img.src = dataUrl;
+      })
+      .catch(e => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [reference, rotation]);
+
+  const rotate = (quarterTurns: number) => {
+    setRotation(r => r + quarterTurns * 90);
+    setCrop(FULL_CROP);
+  };
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = toPoint(e);
+    const width = Math.abs(point.x - start.x);
+    const height = Math.abs(point.y - start.y);
+    if (width < MIN_CROP || height < MIN_CROP) return;
+    setCrop({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width, height });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSave(await transformReferenceImage(reference, rotation, crop));
+    } catch (e: any) {
+      setError(e.message || "Could not save the reference.");
+      setIsSaving(false);
+    }
+  };
+
+  const isCropped = crop !== FULL_CROP;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div
+        className="w-full max-w-2xl max-h-full flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <Crop className="w-4 h-4 text-blue-500" />
+            Crop Reference • {title}
+          </h2>
+          <button onClick={onCancel} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3 text-[10px] font-mono uppercase text-zinc-500">
+            <button onClick={() => rotate(-1)} className="flex items-center gap-1 hover:text-zinc-300">
+              <RotateCcw className="w-3 h-3" /> Rotate Left
+            </button>
+            <button onClick={() => rotate(1)} className="flex items-center gap-1 hover:text-zinc-300">
+              <RotateCw className="w-3 h-3" /> Rotate Right
+            </button>
+            <button onClick={() => setCrop(FULL_CROP)} disabled={!isCropped} className="hover:text-zinc-300 disabled:opacity-40">
+              Reset Crop
+            </button>
+          </div>
+
+          {preview && (
+            <div
+              className="relative bg-black rounded-md overflow-hidden mx-auto cursor-crosshair touch-none select-none"
+              style={{ aspectRatio: `${preview.ratio}`, width: `min(100%, calc(55vh * ${preview.ratio}))` }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img src={preview.url} alt={title} className="w-full h-full object-contain" draggable={false} />
+              {isCropped && (
+                <div
+                  className="absolute border border-blue-400 pointer-events-none"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0,0,0,0.6)',
+                  }}
+                />
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-xs text-red-400">{error}</div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-zinc-800 flex justify-between items-center gap-2">
+          <span className="text-xs text-zinc-500">Drag over the image to choose the area to keep.</span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onCancel} className="text-xs">Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || (!isCropped && rotation % 360 === 0)} className="text-xs" icon={<Crop className="w-3 h-3" />}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
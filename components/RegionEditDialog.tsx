@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedShot, Take } from '../types';
+import { Brush, Eraser, Paintbrush, Undo2, X } from 'lucide-react';
+import { Button } from './Button';
+
+interface RegionEditDialogProps {
+  shot: GeneratedShot;
+  take: Take;
+  number: string; // Production shot number
+  onCancel: () => void;
+  onSubmit: (mask: string, instruction: string) => void;
+}
+
+type BrushMode = 'paint' | 'erase';
+
+// Brush diameter as a fraction of the frame width
+const DEFAULT_BRUSH = 0.05;
+
+/**
+ * Paint over the part of a frame that should change and describe the fix.
+ * Strokes are drawn at the frame's own resolution so the mask lines up with it.
+ */
+export const RegionEditDialog: React.FC<RegionEditDialogProps> = ({ shot, take, number, onCancel, onSubmit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const history = useRef<ImageData[]>([]);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [brush, setBrush] = useState(DEFAULT_BRUSH);
+  const [mode, setMode] = useState<BrushMode>('paint');
+  const [instruction, setInstruction] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+
+  // Size the canvas to the frame's natural resolution
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = take.imageUrl;
+  }, [take.imageUrl]);
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = getContext();
+    if (!ctx || !size) return;
+    const from = lastPoint.current ?? point;
+    ctx.globalCompositeOperation = mode === 'paint' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brush * size.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  // Re-reads the canvas, since erasing can take away every painted pixel.
+  // Faint edges left by the eraser come out near black in the mask, so they don't count.
+  const refreshHasMask = () => {
+    const ctx = getContext();
+    if (!ctx || !size) return;
+    const { data } = ctx.getImageData(0, 0, size.width, size.height);
+    let painted = false;
+    for (let i = 3; i < data.length && !painted; i += 4) {
+      painted = data[i] >= 128;
+    }
+    setHasMask(painted);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    if (!ctx || !size) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    history.current.push(ctx.getImageData(0, 0, size.width, size.height));
+    lastPoint.current = null;
+    strokeTo(toCanvasPoint(e));
+    if (mode === 'paint') setHasMask(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    strokeTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+    refreshHasMask();
+  };
+
+  const handleUndo = () => {
+    const ctx = getContext();
+    const previous = history.current.pop();
+    if (!ctx || !previous) return;
+    ctx.putImageData(previous, 0, 0);
+    refreshHasMask();
+  };
+
+  const handleClear = () => {
+    const ctx = getContext();
+    if (!ctx || !size) return;
+    history.current.push(ctx.getImageData(0, 0, size.width, size.height));
+    ctx.clearRect(0, 0, size.width, size.height);
+    setHasMask(false);
+  };
+
+  // White where painted, black elsewhere
+  const buildMask = (): string => {
+    const source = canvasRef.current!;
+    const mask = document.createElement('canvas');
+    mask.width = source.width;
+    mask.height = source.height;
+    const ctx = mask.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    return mask.toDataURL('image/png');
+  };
+
+  const handleSubmit = () => {
+    if (!hasMask || !instruction.trim()) return;
+    onSubmit(buildMask(), instruction.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div
+        className="w-full max-w-5xl max-h-full flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <Paintbrush className="w-4 h-4 text-blue-500" />
+            Edit Region • Shot {number} Take {shot.takes.indexOf(take) + 1}
+          </h2>
+          <button onClick={onCancel} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3 text-[10px] font-mono uppercase text-zinc-500">
+            <div className="flex rounded-md border border-zinc-800 overflow-hidden">
+              <button
+                onClick={() => setMode('paint')}
+                className={`px-2 py-1 flex items-center gap-1 ${mode === 'paint' ? 'bg-zinc-800 text-white' : 'hover:text-zinc-300'}`}
+              >
+                <Brush className="w-3 h-3" /> Paint
+              </button>
+              <button
+                onClick={() => setMode('erase')}
+                className={`px-2 py-1 flex items-center gap-1 ${mode === 'erase' ? 'bg-zinc-800 text-white' : 'hover:text-zinc-300'}`}
+              >
+                <Eraser className="w-3 h-3" /> Erase
+              </button>
+            </div>
+            <label className="flex items-center gap-2">
+              Size
+              <input
+                type="range"
+                min={0.01}
+                max={0.2}
+                step={0.01}
+                value={brush}
+                onChange={(e) => setBrush(Number(e.target.value))}
+              />
+            </label>
+            <button onClick={handleUndo} className="flex items-center gap-1 hover:text-zinc-300">
+              <Undo2 className="w-3 h-3" /> Undo
+            </button>
+            <button onClick={handleClear} className="hover:text-zinc-300">Clear</button>
+          </div>
+
+          <div className="relative bg-black rounded-md overflow-hidden mx-auto" style={size ? { aspectRatio: `${size.width} / ${size.height}`, width: `min(100%, calc(60vh * ${size.width / size.height}))` } : undefined}>
+            <img src={take.imageUrl} alt={take.prompt} className="w-full h-full object-contain select-none" draggable={false} />
+            {size && (
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            )}
+          </div>
+
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            placeholder='Describe the correction, e.g. "make the jacket red" or "remove the car"'
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            autoFocus
+          />
+        </div>
+
+        <div className="px-5 py-4 border-t border-zinc-800 flex justify-between items-center gap-2">
+          <span className="text-xs text-zinc-500">
+            {hasMask ? "The result is added as a new take; this one is kept." : "Paint over the area to change."}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onCancel} className="text-xs">Cancel</Button>
+            <Button onClick={handleSubmit} disabled={!hasMask || !instruction.trim()} className="text-xs" icon={<Paintbrush className="w-3 h-3" />}>
+              Apply Edit
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { QueueSettings } from '../services/generationQueue';
+import { FrameFit } from '../utils/canvas';
+import { ChevronDown, ChevronRight, SlidersHorizontal } from 'lucide-react';
+
+interface RenderSettingsProps {
+  settings: QueueSettings;
+  onChange: (settings: QueueSettings) => void;
+  frameFit: FrameFit;
+  onFrameFitChange: (fit: FrameFit) => void;
+}
+
+const FIELDS: { key: keyof QueueSettings; label: string; min: number; max: number; hint: string }[] = [
+  { key: 'concurrency', label: 'Parallel', min: 1, max: 8, hint: "Shots rendering at the same time" },
+  { key: 'requestsPerMinute', label: 'Req / Min', min: 1, max: 120, hint: "Rate limit for new requests" },
+  { key: 'maxRetries', label: 'Retries', min: 0, max: 10, hint: "Automatic retries for rate limits and server errors" },
+];
+
+const inputClass = "w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1 text-xs font-mono text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+export const RenderSettings: React.FC<RenderSettingsProps> = ({ settings, onChange, frameFit, onFrameFitChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleChange = (field: typeof FIELDS[number], value: string) => {
+    const number = Math.round(Number(value));
+    if (!Number.isFinite(number)) return;
+    onChange({ ...settings, [field.key]: Math.min(field.max, Math.max(field.min, number)) });
+  };
+
+  return (
+    <div className="mb-3">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="text-[10px] uppercase font-bold text-zinc-500 hover:text-zinc-300 flex items-center gap-1"
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <SlidersHorizontal className="w-3 h-3" />
+        Render Settings
+      </button>
+      {isOpen && (
+        <div className="grid grid-cols-4 gap-3 mt-2">
+          {FIELDS.map(field => (
+            <label key={field.key} className="block space-y-1" title={field.hint}>
+              <span className="uppercase font-bold text-[10px] text-zinc-500">{field.label}</span>
+              <input
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={settings[field.key]}
+                onChange={(e) => handleChange(field, e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <label className="block space-y-1" title="How frames that come back at a different ratio are conformed to the shot's aspect ratio">
+            <span className="uppercase font-bold text-[10px] text-zinc-500">Fit</span>
+            <select value={frameFit} onChange={(e) => onFrameFitChange(e.target.value as FrameFit)} className={inputClass}>
+              <option value="crop">Crop</option>
+              <option value="letterbox">Letterbox</option>
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import React, { useRef, useState } from 'react';
+import { AnnotationPoint, AnnotationTool, GeneratedShot, ReviewComment, ShotReview } from '../types';
+import { ChevronLeft, ChevronRight, MessageSquare, MoveUpRight, Pencil, Reply, Sparkles, Trash2, Undo2, X } from 'lucide-react';
+import { createComment, createReview, getCommentThreads, getTakeAnnotations, REVIEW_STATUSES } from '../services/reviewService';
+import { getPrimaryTake } from '../services/takeService';
+import { parseAspectRatio } from '../utils/aspectRatio';
+import { generateId } from '../utils/ids';
+import { AnnotationOverlay, AnnotationShape } from './AnnotationOverlay';
+import { REVIEW_STATUS_CLASSES } from './ReviewStatusBadge';
+import { Button } from './Button';
+
+interface ReviewDialogProps {
+  shot: GeneratedShot;
+  number: string; // Production shot number
+  initialTakeId?: string;
+  reviewerName: string;
+  onReviewerNameChange: (name: string) => void;
+  onChange: (review: ShotReview) => void;
+  onClose: () => void;
+}
+
+const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Freehand points closer than this (fraction of the frame) are skipped
+const MIN_POINT_DISTANCE = 0.004;
+
+const fieldClass = "bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+const formatCommentTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Review one shot: set its status, draw over its takes and discuss it.
+ */
+export const ReviewDialog: React.FC<ReviewDialogProps> = ({
+  shot,
+  number,
+  initialTakeId,
+  reviewerName,
+  onReviewerNameChange,
+  onChange,
+  onClose,
+}) => {
+  const review = shot.review ?? createReview();
+  const [takeId, setTakeId] = useState(initialTakeId ?? getPrimaryTake(shot)?.id);
+  const [tool, setTool] = useState<AnnotationTool>('freehand');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [text, setText] = useState('');
+  const [isForNextRender, setIsForNextRender] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const take = shot.takes.find(t => t.id === takeId);
+  const takeIndex = take ? shot.takes.indexOf(take) : -1;
+  const ratio = parseAspectRatio(shot.aspect_ratio);
+  const annotations = take ? getTakeAnnotations(review, take.id) : [];
+  const threads = getCommentThreads(review.comments);
+  const author = reviewerName.trim() || 'Reviewer';
+
+  const update = (changes: Partial<ShotReview>) => onChange({ ...review, ...changes });
+
+  const updateComment = (id: string, changes: Partial<ReviewComment>) => {
+    update({ comments: review.comments.map(comment => (comment.id === id ? { ...comment, ...changes } : comment)) });
+  };
+
+  // Deleting a comment takes its replies with it
+  const deleteComment = (id: string) => {
+    update({ comments: review.comments.filter(comment => comment.id !== id && comment.parentId !== id) });
+  };
+
+  const showTake = (offset: number) => {
+    const count = shot.takes.length;
+    setTakeId(shot.takes[(takeIndex + offset + count) % count].id);
+  };
+
+  const toFramePoint = (e: React.PointerEvent): AnnotationPoint => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toFramePoint(e);
+    setDraft({ id: 'draft', tool, color, points: [point, point] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const point = toFramePoint(e);
+    if (draft.tool === 'arrow') {
+      setDraft({ ...draft, points: [draft.points[0], point] });
+      return;
+    }
+    const last = draft.points[draft.points.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_DISTANCE) {
+      setDraft({ ...draft, points: [...draft.points, point] });
+    }
+  };
+
+  // A click without a drag leaves no mark
+  const handlePointerUp = () => {
+    if (!draft || !take) return;
+    const [first] = draft.points;
+    const last = draft.points[draft.points.length - 1];
+    if (Math.hypot(last.x - first.x, last.y - first.y) > MIN_POINT_DISTANCE || draft.points.length > 3) {
+      update({
+        annotations: [...review.annotations, {
+          id: generateId(),
+          takeId: take.id,
+          tool: draft.tool,
+          color: draft.color,
+          points: draft.tool === 'arrow' ? [first, last] : draft.points,
+          author,
+          createdAt: Date.now(),
+        }],
+      });
+    }
+    setDraft(null);
+  };
+
+  const handleUndo = () => {
+    const last = annotations[annotations.length - 1];
+    if (last) update({ annotations: review.annotations.filter(annotation => annotation.id !== last.id) });
+  };
+
+  const handleClear = () => {
+    update({ annotations: review.annotations.filter(annotation => annotation.takeId !== take?.id) });
+  };
+
+  const handlePost = () => {
+    if (!text.trim()) return;
+    update({
+      comments: [...review.comments, createComment(author, text.trim(), {
+        takeId: take?.id,
+        ...(isForNextRender ? { forNextRender: true } : {}),
+      })],
+    });
+    setText('');
+    setIsForNextRender(false);
+  };
+
+  const handleReply = (parentId: string) => {
+    if (!replyText.trim()) return;
+    update({ comments: [...review.comments, createComment(author, replyText.trim(), { parentId, takeId: take?.id })] });
+    setReplyText('');
+    setReplyTo(null);
+  };
+
+  const takeLabel = (id?: string) => {
+    const index = shot.takes.findIndex(t => t.id === id);
+    return index >= 0 ? `Take ${index + 1}` : null;
+  };
+
+  const renderComment = (comment: ReviewComment, isReply: boolean) => (
+    <div className={`space-y-1 ${comment.resolved ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-2 text-[10px] font-mono text-zinc-500">
+        <span className="text-zinc-300 font-semibold">{comment.author}</span>
+        <span>{formatCommentTime(comment.createdAt)}</span>
+        {takeLabel(comment.takeId) && (
+          <button onClick={() => setTakeId(comment.takeId)} className="uppercase hover:text-zinc-300">{takeLabel(comment.takeId)}</button>
+        )}
+        <button onClick={() => deleteComment(comment.id)} className="ml-auto hover:text-red-400" title="Delete comment">
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+      <p className="text-xs text-zinc-200 whitespace-pre-wrap break-words">{comment.text}</p>
+      {!isReply && (
+        <div className="flex items-center gap-3 text-[10px] font-mono uppercase text-zinc-500">
+          <button onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)} className="flex items-center gap-1 hover:text-zinc-300">
+            <Reply className="w-3 h-3" /> Reply
+          </button>
+          <button onClick={() => updateComment(comment.id, { resolved: !comment.resolved || undefined })} className="hover:text-zinc-300">
+            {comment.resolved ? 'Reopen' : 'Resolve'}
+          </button>
+          <button
+            onClick={() => updateComment(comment.id, { forNextRender: !comment.forNextRender || undefined })}
+            className={`flex items-center gap-1 ${comment.forNextRender ? 'text-blue-400' : 'hover:text-zinc-300'}`}
+            title="Add this note to the prompt of the next render while it is open"
+          >
+            <Sparkles className="w-3 h-3" /> Next render
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-full flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <MessageSquare className="w-4 h-4 text-blue-500" />
+            Review • Shot {number}
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[3fr_2fr] overflow-y-auto lg:overflow-hidden">
+          {/* Frame and annotation tools */}
+          <div className="p-5 space-y-3 lg:overflow-y-auto">
+            <div className="flex items-center gap-3 text-[10px] font-mono uppercase text-zinc-500">
+              <div className="flex rounded-md border border-zinc-800 overflow-hidden">
+                <button
+                  onClick={() => setTool('freehand')}
+                  className={`px-2 py-1 flex items-center gap-1 ${tool === 'freehand' ? 'bg-zinc-800 text-white' : 'hover:text-zinc-300'}`}
+                >
+                  <Pencil className="w-3 h-3" /> Draw
+                </button>
+                <button
+                  onClick={() => setTool('arrow')}
+                  className={`px-2 py-1 flex items-center gap-1 ${tool === 'arrow' ? 'bg-zinc-800 text-white' : 'hover:text-zinc-300'}`}
+                >
+                  <MoveUpRight className="w-3 h-3" /> Arrow
+                </button>
+              </div>
+              <div className="flex gap-1">
+                {ANNOTATION_COLORS.map(swatch => (
+                  <button
+                    key={swatch}
+                    onClick={() => setColor(swatch)}
+                    className={`w-4 h-4 rounded-full border ${color === swatch ? 'border-white' : 'border-zinc-700'}`}
+                    style={{ backgroundColor: swatch }}
+                    title={swatch}
+                  />
+                ))}
+              </div>
+              <button onClick={handleUndo} disabled={annotations.length === 0} className="flex items-center gap-1 hover:text-zinc-300 disabled:opacity-30">
+                <Undo2 className="w-3 h-3" /> Undo
+              </button>
+              <button onClick={handleClear} disabled={annotations.length === 0} className="hover:text-zinc-300 disabled:opacity-30">Clear</button>
+            </div>
+
+            {take ? (
+              <div
+                ref={surfaceRef}
+                className="relative bg-black rounded-md overflow-hidden mx-auto cursor-crosshair touch-none select-none"
+                style={{ aspectRatio: ratio, width: `min(100%, calc(60vh * ${ratio}))` }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDraft(null)}
+              >
+                <img src={take.imageUrl} alt={take.prompt} className="w-full h-full object-contain" draggable={false} />
+                <AnnotationOverlay annotations={draft ? [...annotations, draft] : annotations} ratio={ratio} />
+              </div>
+            ) : (
+              <div className="flex items-center justify-center rounded-md border border-dashed border-zinc-800 text-xs text-zinc-500" style={{ aspectRatio: ratio }}>
+                No takes to annotate yet
+              </div>
+            )}
+
+            {shot.takes.length > 1 && (
+              <div className="flex items-center justify-center gap-2 text-[10px] font-mono uppercase text-zinc-500">
+                <button onClick={() => showTake(-1)} className="p-0.5 hover:text-white" title="Previous take">
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                <span className="text-zinc-300">Take {takeIndex + 1}/{shot.takes.length}</span>
+                <button onClick={() => showTake(1)} className="p-0.5 hover:text-white" title="Next take">
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Status and comments */}
+          <div className="p-5 space-y-4 border-t lg:border-t-0 lg:border-l border-zinc-800 lg:overflow-y-auto">
+            <div className="grid grid-cols-2 gap-1.5">
+              {REVIEW_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => update({ status })}
+                  className={`px-2 py-1.5 rounded-md border text-[10px] font-mono uppercase ${
+                    review.status === status ? REVIEW_STATUS_CLASSES[status] : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {status}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              {threads.length === 0 && <p className="text-xs text-zinc-500">No comments yet.</p>}
+              {threads.map(({ comment, replies }) => (
+                <div key={comment.id} className="p-2.5 rounded-lg border border-zinc-800 bg-zinc-900 space-y-2">
+                  {renderComment(comment, false)}
+                  {replies.map(reply => (
+                    <div key={reply.id} className="pl-3 border-l border-zinc-700">
+                      {renderComment(reply, true)}
+                    </div>
+                  ))}
+                  {replyTo === comment.id && (
+                    <div className="flex gap-2 pl-3">
+                      <input
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleReply(comment.id)}
+                        placeholder="Reply..."
+                        className={`${fieldClass} flex-1 min-w-0`}
+                        autoFocus
+                      />
+                      <Button onClick={() => handleReply(comment.id)} disabled={!replyText.trim()} className="text-xs px-3 py-1">Reply</Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <input
+                value={reviewerName}
+                onChange={(e) => onReviewerNameChange(e.target.value)}
+                placeholder="Your name"
+                className={`${fieldClass} w-full`}
+              />
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={3}
+                placeholder={take ? `Note on take ${takeIndex + 1}...` : 'Note on this shot...'}
+                className={`${fieldClass} w-full resize-y leading-relaxed`}
+              />
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-[10px] font-mono uppercase text-zinc-400" title="Add this note to the prompt of the next render while it is open">
+                  <input
+                    type="checkbox"
+                    checked={isForNextRender}
+                    onChange={(e) => setIsForNextRender(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Use in next render
+                </label>
+                <Button onClick={handlePost} disabled={!text.trim()} className="text-xs" icon={<MessageSquare className="w-3 h-3" />}>
+                  Comment
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ReviewStatus } from '../types';
+
+export const REVIEW_STATUS_CLASSES: Record<ReviewStatus, string> = {
+  [ReviewStatus.PENDING]: 'border-zinc-700 text-zinc-400',
+  [ReviewStatus.APPROVED]: 'border-emerald-500/50 bg-emerald-950/40 text-emerald-300',
+  [ReviewStatus.NEEDS_CHANGES]: 'border-amber-500/50 bg-amber-950/40 text-amber-300',
+  [ReviewStatus.OMITTED]: 'border-zinc-700 bg-zinc-900 text-zinc-500 line-through',
+};
+
+interface ReviewStatusBadgeProps {
+  status: ReviewStatus;
+  onClick?: () => void;
+  title?: string;
+}
+
+export const ReviewStatusBadge: React.FC<ReviewStatusBadgeProps> = ({ status, onClick, title }) => (
+  <button
+    onClick={onClick}
+    disabled={!onClick}
+    title={title}
+    className={`px-1.5 py-0.5 rounded border text-[10px] font-mono uppercase tracking-normal whitespace-nowrap ${REVIEW_STATUS_CLASSES[status]} ${onClick ? 'hover:brightness-125' : 'cursor-default'}`}
+  >
+    {status}
+  </button>
+);
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Scene, Sequence } from '../types';
+import {
+  createScene,
+  createSequence,
+  findDuplicateSceneNumbers,
+  getNextSceneNumber,
+  isDuplicateSceneNumber,
+  parseSceneHeading,
+} from '../services/sceneService';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ScenePanelProps {
+  scenes: Scene[];
+  sequences: Sequence[];
+  onScenesChange: (scenes: Scene[]) => void;
+  onSequencesChange: (sequences: Sequence[]) => void;
+}
+
+const fieldClass = "bg-zinc-950 border rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+/**
+ * Scenes in production order, optionally grouped into sequences. Shots pick
+ * their scene in the shot list and are numbered from it.
+ */
+export const ScenePanel: React.FC<ScenePanelProps> = ({ scenes, sequences, onScenesChange, onSequencesChange }) => {
+  // Numbers are committed on blur, so shots don't follow a half-typed number onto another scene
+  const [draftNumbers, setDraftNumbers] = useState<Record<string, string>>({});
+  const duplicates = findDuplicateSceneNumbers(scenes);
+
+  const updateScene = (id: string, changes: Partial<Scene>) => {
+    onScenesChange(scenes.map(scene => (scene.id === id ? { ...scene, ...changes } : scene)));
+  };
+
+  // Location and time follow the heading until they are edited by hand
+  const handleHeadingChange = (scene: Scene, heading: string) => {
+    const previous = parseSceneHeading(scene.heading);
+    const next = parseSceneHeading(heading);
+    updateScene(scene.id, {
+      heading,
+      ...(scene.location === previous.location ? { location: next.location } : {}),
+      ...(scene.timeOfDay === previous.timeOfDay ? { timeOfDay: next.timeOfDay } : {}),
+    });
+  };
+
+  const commitNumber = (scene: Scene) => {
+    const number = draftNumbers[scene.id]?.trim();
+    if (number && number !== scene.number) updateScene(scene.id, { number });
+    setDraftNumbers(({ [scene.id]: _, ...rest }) => rest);
+  };
+
+  const handleAddScene = () => {
+    const last = scenes[scenes.length - 1];
+    onScenesChange([...scenes, createScene(getNextSceneNumber(scenes), '', last?.sequenceId)]);
+  };
+
+  const handleAddSequence = () => {
+    onSequencesChange([...sequences, createSequence(`Sequence ${sequences.length + 1}`)]);
+  };
+
+  const handleDeleteSequence = (id: string) => {
+    onSequencesChange(sequences.filter(sequence => sequence.id !== id));
+    if (scenes.some(scene => scene.sequenceId === id)) {
+      onScenesChange(scenes.map(scene => (scene.sequenceId === id ? { ...scene, sequenceId: undefined } : scene)));
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+          Scenes
+        </h2>
+        <div className="flex gap-3">
+          <button
+            onClick={handleAddSequence}
+            className="text-[10px] uppercase font-bold text-zinc-500 hover:text-zinc-300 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Sequence
+          </button>
+          <button
+            onClick={handleAddScene}
+            className="text-[10px] uppercase font-bold text-blue-500 hover:text-blue-400 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Add Scene
+          </button>
+        </div>
+      </div>
+
+      {scenes.length === 0 && (
+        <p className="text-xs text-zinc-500 leading-relaxed">
+          Shots without a scene are numbered 1, 2, 3. Add scenes, or import a screenplay, to number
+          shots the way the production does: 12A, 12B, 13A.
+        </p>
+      )}
+
+      {sequences.length > 0 && (
+        <div className="space-y-1.5">
+          {sequences.map(sequence => (
+            <div key={sequence.id} className="flex items-center gap-2">
+              <input
+                value={sequence.name}
+                onChange={(e) => onSequencesChange(sequences.map(s => (s.id === sequence.id ? { ...s, name: e.target.value } : s)))}
+                placeholder="Sequence name"
+                className={`${fieldClass} flex-1 min-w-0 border-zinc-800`}
+              />
+              <button onClick={() => handleDeleteSequence(sequence.id)} className="text-zinc-600 hover:text-red-400" title="Delete sequence">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {scenes.map(scene => {
+          const isDuplicate = isDuplicateSceneNumber(duplicates, scene);
+          return (
+            <div key={scene.id} className="p-2 rounded-lg border border-zinc-800 bg-zinc-900 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <input
+                  value={draftNumbers[scene.id] ?? scene.number}
+                  onChange={(e) => setDraftNumbers(prev => ({ ...prev, [scene.id]: e.target.value }))}
+                  onBlur={() => commitNumber(scene)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className={`${fieldClass} w-14 font-mono text-center ${isDuplicate ? 'border-red-500/50' : 'border-zinc-800'}`}
+                  title={isDuplicate ? `Scene ${scene.number} is numbered twice` : 'Scene number'}
+                  spellCheck={false}
+                />
+                <input
+                  value={scene.heading}
+                  onChange={(e) => handleHeadingChange(scene, e.target.value)}
+                  placeholder="INT. ALLEY - NIGHT"
+                  className={`${fieldClass} flex-1 min-w-0 font-mono uppercase border-zinc-800`}
+                  spellCheck={false}
+                />
+                <button
+                  onClick={() => onScenesChange(scenes.filter(s => s.id !== scene.id))}
+                  className="text-zinc-600 hover:text-red-400"
+                  title="Delete scene"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  value={scene.location}
+                  onChange={(e) => updateScene(scene.id, { location: e.target.value })}
+                  placeholder="Location"
+                  className={`${fieldClass} flex-1 min-w-0 border-zinc-800`}
+                />
+                <input
+                  value={scene.timeOfDay}
+                  onChange={(e) => updateScene(scene.id, { timeOfDay: e.target.value })}
+                  placeholder="Time of day"
+                  className={`${fieldClass} w-24 border-zinc-800`}
+                />
+                {sequences.length > 0 && (
+                  <select
+                    value={scene.sequenceId ?? ''}
+                    onChange={(e) => updateScene(scene.id, { sequenceId: e.target.value || undefined })}
+                    className={`${fieldClass} w-28 border-zinc-800`}
+                    title="Sequence"
+                  >
+                    <option value="">No sequence</option>
+                    {sequences.map(sequence => (
+                      <option key={sequence.id} value={sequence.id}>{sequence.name || 'Untitled'}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {isDuplicate && <p className="text-[10px] text-red-400">Another scene uses number {scene.number}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
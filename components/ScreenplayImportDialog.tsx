@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ShotConfig } from '../types';
+import { Screenplay } from '../services/screenplayParser';
+import { BREAKDOWN_STRATEGIES } from '../services/shotBreakdown';
+import { Button } from './Button';
+import { FileText, X } from 'lucide-react';
+
+export type ScreenplayImportMode = 'replace' | 'append';
+
+interface ScreenplayImportDialogProps {
+  fileName: string;
+  screenplay: Screenplay;
+  castNames: string[];
+  canAppend: boolean; // Appending needs the current shot list to be valid
+  onCancel: () => void;
+  onImport: (shots: ShotConfig[], mode: ScreenplayImportMode, newCharacters: string[]) => void;
+}
+
+export const ScreenplayImportDialog: React.FC<ScreenplayImportDialogProps> = ({
+  fileName,
+  screenplay,
+  castNames,
+  canAppend,
+  onCancel,
+  onImport,
+}) => {
+  const available = BREAKDOWN_STRATEGIES.filter(s => s.isAvailable());
+  const [strategyId, setStrategyId] = useState(available[0].id);
+  const [mode, setMode] = useState<ScreenplayImportMode>('replace');
+  const [addCharacters, setAddCharacters] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const knownNames = new Set(castNames.map(name => name.toLowerCase()));
+  const newCharacters = screenplay.characters.filter(name => !knownNames.has(name.toLowerCase()));
+
+  const handleImport = async () => {
+    const strategy = BREAKDOWN_STRATEGIES.find(s => s.id === strategyId)!;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const shots = await strategy.breakdown(screenplay);
+      if (shots.length === 0) {
+        throw new Error("No shots could be derived from this script.");
+      }
+      onImport(shots, mode, addCharacters ? newCharacters : []);
+    } catch (e: any) {
+      setError(e.message || "Shot breakdown failed");
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div
+        className="w-full max-w-md flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <FileText className="w-4 h-4 text-blue-500" />
+            Import Screenplay
+          </h2>
+          <button onClick={onCancel} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 text-xs text-zinc-400">
+          <div>
+            <p className="text-sm text-zinc-100 truncate">{screenplay.title || fileName}</p>
+            <p className="font-mono uppercase mt-1">
+              {screenplay.scenes.length} SCENES • {screenplay.characters.length} CHARACTERS
+            </p>
+          </div>
+
+          {screenplay.characters.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {screenplay.characters.map(name => (
+                <span key={name} className="px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] font-mono uppercase text-zinc-400">
+                  {name}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <label className="block space-y-1">
+            <span className="uppercase font-bold text-[10px] text-zinc-500">Shot breakdown</span>
+            <select
+              value={strategyId}
+              onChange={(e) => setStrategyId(e.target.value)}
+              className="w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            >
+              {available.map(s => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              Replace shot list
+            </label>
+            <label className={`flex items-center gap-2 ${canAppend ? '' : 'opacity-50'}`}>
+              <input type="radio" checked={mode === 'append'} disabled={!canAppend} onChange={() => setMode('append')} />
+              Append
+            </label>
+          </div>
+
+          {newCharacters.length > 0 && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={addCharacters} onChange={(e) => setAddCharacters(e.target.checked)} />
+              Add {newCharacters.length} new character{newCharacters.length > 1 ? 's' : ''} to the cast
+            </label>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400">{error}</div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-zinc-800 flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel} className="text-xs">Cancel</Button>
+          <Button onClick={handleImport} isLoading={isWorking} className="text-xs">
+            {isWorking ? 'Breaking Down...' : 'Create Shot List'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,86 +1,206 @@
-import React from 'react';
-import { GeneratedShot, GenerationStatus } from '../types';
-import { Download, Loader2, AlertCircle, Maximize2, RefreshCw } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedShot, GenerationStatus, ReviewStatus } from '../types';
+import { Download, Loader2, AlertCircle, Play, RefreshCw, Clock, X, Ban, ChevronLeft, ChevronRight, CircleCheck, Circle, Columns2, Plus, Paintbrush, AlertTriangle, ScanFace, ShieldAlert, MessageSquare } from 'lucide-react';
+import { formatTimestamp } from '../utils/download';
+import { getPrimaryTake } from '../services/takeService';
+import { isDrifting } from '../services/consistencyService';
+import { ERROR_LABELS } from '../services/generationErrors';
+import { toShotFileLabel } from '../services/sceneService';
+import { getCameraReport } from '../services/cameraService';
+import { countOpenComments, getReviewStatus, getTakeAnnotations } from '../services/reviewService';
+import { parseAspectRatio } from '../utils/aspectRatio';
+import { extensionForMimeType, getDataUrlMimeType } from '../utils/dataUrl';
+import { FramingGuideOptions } from '../utils/framingGuides';
+import { FramingGuides } from './FramingGuides';
+import { AnnotationOverlay } from './AnnotationOverlay';
+import { ReviewStatusBadge } from './ReviewStatusBadge';
 
 interface ShotCardProps {
   shot: GeneratedShot;
-  index: number;
+  number: string; // Production shot number, e.g. "12A"
   onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onCircleTake: (id: string, takeId: string) => void;
+  onCompareTakes: (id: string) => void;
+  guides: FramingGuideOptions;
+  onPlay: (id: string) => void; // Opens the animatic at this shot
+  onEditTake?: (id: string, takeId: string) => void; // Omitted when the provider can't edit regions
+  onReview: (id: string, takeId?: string) => void; // Opens the review dialog at this take
 }
 
-export const ShotCard: React.FC<ShotCardProps> = ({ shot, index, onRetry }) => {
+// Frames taller than this are pillarboxed so cards in a row stay a similar height
+const MIN_CARD_RATIO = 4 / 5;
+
+export const ShotCard: React.FC<ShotCardProps> = ({ shot, number, onRetry, onCancel, onCircleTake, onCompareTakes, guides, onPlay, onEditTake, onReview }) => {
+  const isQueued = shot.status === GenerationStatus.QUEUED;
   const isPending = shot.status === GenerationStatus.PENDING;
   const isError = shot.status === GenerationStatus.ERROR;
-  const isSuccess = shot.status === GenerationStatus.SUCCESS;
+  const failure = isError ? shot.failure : undefined;
+  const isSafetyBlock = failure?.code === 'safety_block';
+  const isCancelled = shot.status === GenerationStatus.CANCELLED;
+  const isBusy = isQueued || isPending;
 
-  // Generate timestamp for filename: YYYYMMDD_HHmmss
-  const now = new Date();
-  const timestamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}${String(now.getSeconds()).padStart(2, '0')}`;
-
-  const handleFullScreen = () => {
-    if (!shot.imageUrl) return;
-
-    const newWindow = window.open('', '_blank');
-    if (newWindow) {
-      newWindow.document.write(`
-        <!DOCTYPE html>
-        <html>
-          <head>
-            <title>Shot #${index + 1} - ${shot.shot_type}</title>
-            <style>
-              body { 
-                margin: 0; 
-                padding: 0; 
-                background-color: #09090b; 
-                display: flex; 
-                align-items: center; 
-                justify-content: center; 
-                height: 100vh; 
-                width: 100vw;
-                overflow: hidden;
-              }
-              img { 
-                max-width: 95%; 
-                max-height: 95%; 
-                object-fit: contain; 
-                box-shadow: 0 0 40px rgba(0,0,0,0.5);
-                border-radius: 4px;
-              }
-            </style>
-          </head>
-          <body>
-            <img src="${shot.imageUrl}" alt="${shot.prompt}" />
-          </body>
-        </html>
-      `);
-      newWindow.document.close();
+  const ratio = parseAspectRatio(shot.aspect_ratio);
+  const areaRatio = Math.max(ratio, MIN_CARD_RATIO);
+
+  // Take shown on the card; defaults to the circled (or latest) take
+  const [viewedTakeId, setViewedTakeId] = useState<string | null>(null);
+  const takeCount = shot.takes.length;
+
+  // Show a new take as soon as it arrives
+  const lastTakeCount = useRef(takeCount);
+  useEffect(() => {
+    if (takeCount > lastTakeCount.current) {
+      setViewedTakeId(shot.takes[takeCount - 1].id);
     }
+    lastTakeCount.current = takeCount;
+  }, [takeCount, shot.takes]);
+
+  const take = shot.takes.find(t => t.id === viewedTakeId) ?? getPrimaryTake(shot);
+  const takeIndex = take ? shot.takes.indexOf(take) : -1;
+  const isCircled = !!take && take.id === shot.circledTakeId;
+  const consistency = take?.consistency;
+  const isTakeDrifting = isDrifting(consistency);
+  const toPercent = (score: number) => `${Math.round(score * 100)}%`;
+
+  // Moving shots may have a last frame too; the card shows one end at a time
+  const [isShowingEnd, setIsShowingEnd] = useState(false);
+  const isEndFrame = isShowingEnd && !!take?.endImageUrl;
+  const frameUrl = isEndFrame ? take!.endImageUrl! : take?.imageUrl;
+  const cameraReport = getCameraReport(shot.camera);
+  const reviewStatus = getReviewStatus(shot);
+  const openComments = countOpenComments(shot.review);
+
+  const showTake = (offset: number) => {
+    setViewedTakeId(shot.takes[(takeIndex + offset + takeCount) % takeCount].id);
   };
 
+  const cancelButton = (
+    <button
+      onClick={() => onCancel(shot.id)}
+      className="mt-1 flex items-center gap-1 px-3 py-1 rounded-md text-[10px] font-mono uppercase text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+      title="Cancel this shot"
+    >
+      <X className="w-3 h-3" />
+      Cancel
+    </button>
+  );
+
+  // Generate timestamp for filename: YYYYMMDD_HHmmss
+  const timestamp = formatTimestamp();
+
+  // Status panels fill the frame when there is no take yet, otherwise they sit on top of it
+  const statusLayout = take ? 'absolute inset-0 justify-center bg-black/70' : '';
+
   return (
-    <div className="group relative flex flex-col bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden hover:border-blue-500/50 transition-all duration-300 shadow-lg">
+    <div className={`group relative flex flex-col bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden hover:border-blue-500/50 transition-all duration-300 shadow-lg ${reviewStatus === ReviewStatus.OMITTED ? 'opacity-50 hover:opacity-100' : ''}`}>
       {/* Header */}
       <div className="px-3 py-2 bg-zinc-900 border-b border-zinc-800 flex justify-between items-center text-xs text-zinc-400 font-mono uppercase tracking-wider">
         <span className="flex items-center gap-2">
-          <span className="text-blue-500 font-bold">#{index + 1}</span>
+          <span className="text-blue-500 font-bold">{number}</span>
           {shot.shot_type}
         </span>
-        <span>{shot.aspect_ratio}</span>
+        <span className="flex items-center gap-2">
+          <ReviewStatusBadge status={reviewStatus} onClick={() => onReview(shot.id, take?.id)} title="Review this shot" />
+          {shot.aspect_ratio}
+        </span>
       </div>
 
+      {/* Camera report */}
+      {cameraReport.length > 0 && (
+        <div className="px-3 py-1 bg-zinc-950/60 border-b border-zinc-800 text-[10px] font-mono uppercase text-zinc-500 truncate" title={cameraReport.join('\n')}>
+          {cameraReport.join(' · ')}
+        </div>
+      )}
+
       {/* Image Area */}
-      <div className="relative aspect-video w-full bg-zinc-950 flex items-center justify-center overflow-hidden">
+      <div className="relative w-full bg-zinc-950 flex items-center justify-center overflow-hidden" style={{ aspectRatio: areaRatio }}>
+        {/* The frame at its true ratio */}
+        <div
+          className={`absolute inset-y-0 left-1/2 -translate-x-1/2 overflow-hidden pointer-events-none ${take ? '' : 'border border-dashed border-zinc-800'}`}
+          style={{ width: `${(ratio / areaRatio) * 100}%` }}
+        >
+          {take && (
+            <img 
+              src={frameUrl} 
+              alt={take.prompt} 
+              className="w-full h-full object-contain transition-transform duration-700 group-hover:scale-105"
+            />
+          )}
+          {/* Annotations are drawn on the first frame */}
+          {take && !isEndFrame && <AnnotationOverlay annotations={getTakeAnnotations(shot.review, take.id)} ratio={ratio} />}
+          {take && <FramingGuides options={guides} />}
+        </div>
+
+        {/* Overlay Actions */}
+        {take && !isBusy && (
+          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
+            <a 
+              href={frameUrl} 
+              download={`shot-${toShotFileLabel(number)}_take-${takeIndex + 1}${isEndFrame ? '-end' : ''}_${timestamp}.${extensionForMimeType(getDataUrlMimeType(frameUrl))}`}
+              className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-sm transition-colors"
+              title="Download High Res"
+            >
+              <Download className="w-5 h-5" />
+            </a>
+            <button 
+              className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-sm transition-colors"
+              title="Play animatic from here"
+              onClick={() => onPlay(shot.id)}
+            >
+              <Play className="w-5 h-5" />
+            </button>
+            <button
+              className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-sm transition-colors"
+              title="Render another take"
+              onClick={() => onRetry(shot.id)}
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+            {/* Region edits apply to the first frame */}
+            {onEditTake && !isEndFrame && (
+              <button
+                className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-sm transition-colors"
+                title="Edit a region of this take"
+                onClick={() => onEditTake(shot.id, take.id)}
+              >
+                <Paintbrush className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {isQueued && (
+          <div className={`flex flex-col items-center gap-3 text-zinc-500 px-6 text-center w-full ${statusLayout}`}>
+            <Clock className="w-8 h-8 opacity-60" />
+            <span className="text-xs font-mono">QUEUED</span>
+            {/* Set while backing off before a retry */}
+            {shot.error && <span className="text-[10px] font-mono text-amber-500/80 break-words w-full px-2">{shot.error}</span>}
+            {cancelButton}
+          </div>
+        )}
+
         {isPending && (
-          <div className="flex flex-col items-center gap-3 text-blue-400">
+          <div className={`flex flex-col items-center gap-3 text-blue-400 ${statusLayout}`}>
             <Loader2 className="w-8 h-8 animate-spin" />
-            <span className="text-xs font-mono animate-pulse">RENDERING SHOT...</span>
+            <span className="text-xs font-mono animate-pulse">{take ? `RENDERING TAKE ${takeCount + 1}...` : 'RENDERING SHOT...'}</span>
+            {cancelButton}
           </div>
         )}
         
-        {isError && (
+        {isError && !take && (
           <div className="flex flex-col items-center gap-3 text-red-400 px-6 text-center z-10 w-full">
-            <AlertCircle className="w-8 h-8 opacity-80" />
+            {isSafetyBlock ? <ShieldAlert className="w-8 h-8 opacity-80" /> : <AlertCircle className="w-8 h-8 opacity-80" />}
+            {failure && (
+              <span className="px-1.5 py-0.5 rounded border border-red-500/30 text-[10px] font-mono uppercase" title={failure.retryable ? "Temporary; retrying may work" : "Retrying the same request is unlikely to help"}>
+                {ERROR_LABELS[failure.code]}
+              </span>
+            )}
             <span className="text-xs font-mono break-words w-full px-2">{shot.error || "Generation Failed"}</span>
+            {/* The model's own explanation, e.g. why it refused */}
+            {failure?.detail && (
+              <p className="w-full max-h-24 overflow-y-auto px-2 text-[11px] italic text-red-300/80 break-words">"{failure.detail}"</p>
+            )}
             <button 
               onClick={() => onRetry(shot.id)}
               className="mt-2 flex items-center gap-2 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 rounded-md text-xs font-medium text-red-200 transition-all hover:scale-105 active:scale-95 group/btn"
@@ -92,42 +212,145 @@ export const ShotCard: React.FC<ShotCardProps> = ({ shot, index, onRetry }) => {
           </div>
         )}
 
-        {isSuccess && shot.imageUrl && (
-          <img 
-            src={shot.imageUrl} 
-            alt={shot.prompt} 
-            className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-          />
-        )}
-        
-        {/* Overlay Actions */}
-        {isSuccess && (
-          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
-            <a 
-              href={shot.imageUrl} 
-              download={`shot-${index + 1}_${timestamp}.png`}
-              className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-sm transition-colors"
-              title="Download High Res"
-            >
-              <Download className="w-5 h-5" />
-            </a>
-            <button 
-              className="p-2 bg-white/10 hover:bg-white/20 rounded-full text-white backdrop-blur-sm transition-colors"
-              title="View Fullscreen"
-              onClick={handleFullScreen}
+        {isCancelled && !take && (
+          <div className="flex flex-col items-center gap-3 text-zinc-500">
+            <Ban className="w-8 h-8 opacity-60" />
+            <span className="text-xs font-mono">CANCELLED</span>
+            <button
+              onClick={() => onRetry(shot.id)}
+              className="mt-2 flex items-center gap-2 px-4 py-2 bg-zinc-800/60 hover:bg-zinc-800 border border-zinc-700 rounded-md text-xs font-medium text-zinc-300 transition-colors"
+              title="Queue this shot again"
             >
-              <Maximize2 className="w-5 h-5" />
+              <RefreshCw className="w-3 h-3" />
+              RENDER SHOT
             </button>
           </div>
         )}
+
+        {isTakeDrifting && !isBusy && !isError && (
+          <div className="absolute bottom-0 inset-x-0 px-3 py-1.5 bg-amber-950/90 text-amber-300 text-[10px] font-mono flex items-center gap-2">
+            <AlertTriangle className="w-3 h-3 shrink-0" />
+            <span className="truncate flex-1">
+              Character drift: {consistency!.characters.map(c => `${c.name} ${toPercent(c.score)}`).join(', ')}
+            </span>
+            <button onClick={() => onRetry(shot.id)} className="uppercase font-bold hover:text-amber-100">Regenerate</button>
+          </div>
+        )}
+
+        {/* A failed new take leaves the earlier ones in place */}
+        {isError && take && (
+          <div className="absolute bottom-0 inset-x-0 px-3 py-1.5 bg-red-950/90 text-red-300 text-[10px] font-mono flex items-center gap-2">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            <span className="truncate flex-1" title={[shot.error, failure?.detail].filter(Boolean).join('\n\n')}>
+              New take failed{failure ? ` (${ERROR_LABELS[failure.code]})` : ''}: {failure?.detail ?? shot.error ?? "Generation Failed"}
+            </span>
+            <button onClick={() => onRetry(shot.id)} className="uppercase font-bold hover:text-red-100">Retry</button>
+          </div>
+        )}
       </div>
 
+      {/* Takes */}
+      {take && (
+        <div className="px-3 py-1.5 bg-zinc-900 border-t border-zinc-800 flex items-center gap-2 text-[10px] font-mono uppercase text-zinc-500">
+          <button
+            onClick={() => showTake(-1)}
+            disabled={takeCount < 2}
+            className="p-0.5 hover:text-white disabled:opacity-30"
+            title="Previous take"
+          >
+            <ChevronLeft className="w-3 h-3" />
+          </button>
+          <span className="text-zinc-300">Take {takeIndex + 1}/{takeCount}</span>
+          <button
+            onClick={() => showTake(1)}
+            disabled={takeCount < 2}
+            className="p-0.5 hover:text-white disabled:opacity-30"
+            title="Next take"
+          >
+            <ChevronRight className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => onCircleTake(shot.id, take.id)}
+            className={`flex items-center gap-1 ${isCircled ? 'text-emerald-400' : 'hover:text-zinc-300'}`}
+            title={isCircled ? "Uncircle this take" : "Circle this take; exports use the circled take"}
+          >
+            {isCircled ? <CircleCheck className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+            {isCircled ? 'Circled' : 'Circle'}
+          </button>
+          {take.endImageUrl && (
+            <span className="flex rounded border border-zinc-800 overflow-hidden" title="First or last frame of the camera move">
+              {(['Start', 'End'] as const).map(label => (
+                <button
+                  key={label}
+                  onClick={() => setIsShowingEnd(label === 'End')}
+                  className={`px-1.5 ${(label === 'End') === isEndFrame ? 'bg-zinc-800 text-zinc-200' : 'hover:text-zinc-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </span>
+          )}
+          {consistency && (
+            <span
+              className={`flex items-center gap-1 ${isTakeDrifting ? 'text-amber-400' : 'text-zinc-500'}`}
+              title={`Match with the cast references\n${consistency.characters.map(c => `${c.name}: ${toPercent(c.score)}`).join('\n')}`}
+            >
+              {isTakeDrifting ? <AlertTriangle className="w-3 h-3" /> : <ScanFace className="w-3 h-3" />}
+              {toPercent(consistency.score)}
+            </span>
+          )}
+          <button
+            onClick={() => onReview(shot.id, take.id)}
+            className={`ml-auto flex items-center gap-1 ${openComments > 0 ? 'text-blue-400' : 'hover:text-zinc-300'}`}
+            title="Comments and annotations"
+          >
+            <MessageSquare className="w-3 h-3" />
+            {openComments > 0 && openComments}
+          </button>
+          {takeCount > 1 && (
+            <button
+              onClick={() => onCompareTakes(shot.id)}
+              className="flex items-center gap-1 hover:text-zinc-300"
+              title="Compare takes side by side"
+            >
+              <Columns2 className="w-3 h-3" />
+              Compare
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Footer */}
       <div className="p-3 bg-zinc-900 border-t border-zinc-800 flex-grow flex flex-col justify-between">
         <p className="text-sm text-zinc-300 line-clamp-2 leading-relaxed font-light">
           {shot.prompt}
         </p>
+        {take?.edit && (
+          <p className="text-[10px] text-blue-400/80 mt-1 line-clamp-2" title={take.edit.instruction}>
+            Edit of take {shot.takes.findIndex(t => t.id === take.edit!.sourceTakeId) + 1 || '?'}: {take.edit.instruction}
+          </p>
+        )}
+        {/* The take was rendered from an earlier version of the prompt */}
+        {take && take.prompt !== shot.prompt && (
+          <p className="text-[10px] text-amber-500/80 mt-1 line-clamp-2" title={take.prompt}>
+            Take prompt: {take.prompt}
+          </p>
+        )}
+        {take?.reviewNotes && (
+          <p className="text-[10px] text-blue-400/80 mt-1 line-clamp-2" title={take.reviewNotes.join('\n')}>
+            Rendered with notes: {take.reviewNotes.join('; ')}
+          </p>
+        )}
+        {shot.characters && shot.characters.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {shot.characters.map(name => (
+              <span key={name} className="px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] font-mono uppercase text-zinc-400">
+                {name}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import {
+  AspectRatio,
+  CameraAngle,
+  CameraHeight,
+  CameraMovement,
+  CameraSettings,
+  DepthOfField,
+  LightingKey,
+  ReferenceAngle,
+  Scene,
+  ShotConfig,
+  ShotType,
+} from '../types';
+import { DEFAULT_ASPECT_RATIO } from '../services/shotListSchema';
+import { describeScene, findScene, getShotNumbers } from '../services/sceneService';
+import { generateId } from '../utils/ids';
+import { DEFAULT_SHOT_DURATION } from '../services/animatic';
+import { getCameraReport, isMovingShot, LENS_PRESETS_MM, MAX_LENS_MM, MIN_LENS_MM } from '../services/cameraService';
+import { Camera, Copy, Eye, EyeOff, GripVertical, Plus, Trash2 } from 'lucide-react';
+
+interface ShotListEditorProps {
+  shots: ShotConfig[];
+  castNames: string[];
+  styleNames: string[];
+  scenes: Scene[];
+  onChange: (shots: ShotConfig[]) => void;
+  getPromptPreview: (shot: ShotConfig) => string; // Final prompt the provider would receive
+}
+
+const cameraSelects: { field: Exclude<keyof CameraSettings, 'lens_mm'>; label: string; values: string[] }[] = [
+  { field: 'height', label: 'Height', values: Object.values(CameraHeight) },
+  { field: 'angle', label: 'Angle', values: Object.values(CameraAngle) },
+  { field: 'movement', label: 'Movement', values: Object.values(CameraMovement) },
+  { field: 'depth_of_field', label: 'Depth of field', values: Object.values(DepthOfField) },
+  { field: 'lighting', label: 'Lighting', values: Object.values(LightingKey) },
+];
+
+const fieldClass = "bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+export const ShotListEditor: React.FC<ShotListEditorProps> = ({ shots, castNames, styleNames, scenes, onChange, getPromptPreview }) => {
+  // Rows only become draggable while their handle is held, so text inside stays selectable
+  const [handleIndex, setHandleIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [cameraIndex, setCameraIndex] = useState<number | null>(null);
+  // Lens is committed on blur so typing "35" doesn't pass through an invalid 3mm
+  const [lensDraft, setLensDraft] = useState<string | null>(null);
+
+  const shotNumbers = getShotNumbers(shots, scenes);
+
+  const updateShot = (index: number, changes: Partial<ShotConfig>) => {
+    onChange(shots.map((shot, i) => (i === index ? { ...shot, ...changes } : shot)));
+  };
+
+  // New shots continue the scene of the last one
+  const handleAdd = () => {
+    const scene = shots[shots.length - 1]?.scene;
+    onChange([...shots, {
+      id: generateId(),
+      shot_type: ShotType.MEDIUM,
+      aspect_ratio: DEFAULT_ASPECT_RATIO,
+      prompt: '',
+      ...(scene ? { scene } : {}),
+    }]);
+  };
+
+  const handleDuplicate = (index: number) => {
+    onChange([...shots.slice(0, index + 1), { ...shots[index], id: generateId() }, ...shots.slice(index + 1)]);
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(shots.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (target: number) => {
+    if (dragIndex !== null && dragIndex !== target) {
+      const next = [...shots];
+      const [moved] = next.splice(dragIndex, 1);
+      next.splice(target, 0, moved);
+      onChange(next);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+    setHandleIndex(null);
+  };
+
+  const toggleCharacter = (index: number, name: string) => {
+    const current = shots[index].characters ?? [];
+    const isListed = current.some(n => n.toLowerCase() === name.toLowerCase());
+    const characters = isListed
+      ? current.filter(n => n.toLowerCase() !== name.toLowerCase())
+      : [...current, name];
+    updateShot(index, { characters });
+  };
+
+  // Clearing the last camera field removes the camera report, and a shot
+  // that stops moving loses its end frame
+  const updateCamera = (index: number, changes: Partial<CameraSettings>) => {
+    const merged: CameraSettings = { ...shots[index].camera, ...changes };
+    const camera = Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== undefined)) as CameraSettings;
+    const hasCamera = Object.keys(camera).length > 0;
+    updateShot(index, {
+      camera: hasCamera ? camera : undefined,
+      ...(isMovingShot({ camera }) ? {} : { end_frame: undefined }),
+    });
+  };
+
+  const commitLens = (index: number) => {
+    if (lensDraft === null) return;
+    const lens = Math.round(Number(lensDraft));
+    updateCamera(index, { lens_mm: lensDraft.trim() && lens > 0 ? Math.min(Math.max(lens, MIN_LENS_MM), MAX_LENS_MM) : undefined });
+    setLensDraft(null);
+  };
+
+  // Turning off the last angle goes back to sending every reference
+  const toggleReference = (index: number, angle: ReferenceAngle) => {
+    const current = shots[index].references ?? [];
+    const references = current.includes(angle) ? current.filter(a => a !== angle) : [...current, angle];
+    updateShot(index, { references: references.length > 0 ? references : undefined });
+  };
+
+  const chipClass = (isActive: boolean) => `px-1.5 py-0.5 rounded text-[10px] font-mono uppercase border ${
+    isActive ? 'border-blue-500/50 bg-blue-950/40 text-blue-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      {shots.map((shot, index) => (
+        <div
+          key={shot.id ?? index}
+          draggable={handleIndex === index}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropIndex(index);
+          }}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setDropIndex(null);
+            setHandleIndex(null);
+          }}
+          className={`flex gap-2 p-2 rounded-lg border bg-zinc-900 transition-colors ${
+            dropIndex === index && dragIndex !== index ? 'border-blue-500/70' : 'border-zinc-800'
+          } ${dragIndex === index ? 'opacity-50' : ''}`}
+        >
+          <div className="flex flex-col items-center gap-1 pt-1">
+            <span
+              onMouseDown={() => setHandleIndex(index)}
+              onMouseUp={() => setHandleIndex(null)}
+              className="cursor-grab text-zinc-600 hover:text-zinc-300"
+              title="Drag to reorder"
+            >
+              <GripVertical className="w-4 h-4" />
+            </span>
+            <span className="text-[10px] font-mono font-bold text-blue-500" title="Production shot number">{shotNumbers[index]}</span>
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={shot.shot_type}
+                onChange={(e) => updateShot(index, { shot_type: e.target.value as ShotType })}
+                className={`${fieldClass} flex-1 min-w-0`}
+                title="Shot type"
+              >
+                {Object.values(ShotType).map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <select
+                value={shot.aspect_ratio}
+                onChange={(e) => updateShot(index, { aspect_ratio: e.target.value as AspectRatio })}
+                className={`${fieldClass} w-24`}
+                title="Aspect ratio"
+              >
+                {Object.values(AspectRatio).map(ratio => (
+                  <option key={ratio} value={ratio}>{ratio}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={shot.duration ?? ''}
+                onChange={(e) => updateShot(index, { duration: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder={`${DEFAULT_SHOT_DURATION}s`}
+                className={`${fieldClass} w-16`}
+                title="Seconds on screen in the animatic"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <select
+                value={findScene(scenes, shot.scene)?.number ?? shot.scene ?? ''}
+                onChange={(e) => updateShot(index, { scene: e.target.value || undefined })}
+                className={`${fieldClass} flex-1 min-w-0`}
+                title="Scene"
+              >
+                <option value="">No scene</option>
+                {/* Keep an unknown scene selectable so it isn't silently dropped */}
+                {shot.scene && !findScene(scenes, shot.scene) && <option value={shot.scene}>{shot.scene}</option>}
+                {scenes.map(scene => (
+                  <option key={scene.id} value={scene.number}>{describeScene(scene)}</option>
+                ))}
+              </select>
+              <select
+                value={shot.style ?? ''}
+                onChange={(e) => updateShot(index, { style: e.target.value || undefined })}
+                className={`${fieldClass} w-28`}
+                title="Style override"
+              >
+                <option value="">Project style</option>
+                {/* Keep an unknown name selectable so it isn't silently dropped */}
+                {shot.style && !styleNames.includes(shot.style) && <option value={shot.style}>{shot.style}</option>}
+                {styleNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+
+            <textarea
+              value={shot.prompt}
+              onChange={(e) => updateShot(index, { prompt: e.target.value })}
+              rows={3}
+              placeholder="Describe the shot..."
+              className={`${fieldClass} w-full resize-y leading-relaxed`}
+            />
+
+            {castNames.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <button
+                  onClick={() => updateShot(index, { characters: shot.characters ? undefined : [] })}
+                  className={`px-1.5 py-0.5 rounded text-[10px] font-mono uppercase border ${
+                    !shot.characters ? 'border-blue-500/50 bg-blue-950/40 text-blue-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                  title="Include the whole cast"
+                >
+                  Whole Cast
+                </button>
+                {shot.characters && castNames.map(name => {
+                  const isActive = shot.characters!.some(n => n.toLowerCase() === name.toLowerCase());
+                  return (
+                    <button
+                      key={name}
+                      onClick={() => toggleCharacter(index, name)}
+                      className={`px-1.5 py-0.5 rounded text-[10px] font-mono uppercase border ${
+                        isActive ? 'border-blue-500/50 bg-blue-950/40 text-blue-300' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-1">
+              <button
+                onClick={() => updateShot(index, { references: shot.references ? undefined : [ReferenceAngle.FRONT] })}
+                className={chipClass(!shot.references)}
+                title="Send every reference image"
+              >
+                All Refs
+              </button>
+              {shot.references && Object.values(ReferenceAngle).map(angle => (
+                <button key={angle} onClick={() => toggleReference(index, angle)} className={chipClass(shot.references!.includes(angle))}>
+                  {angle}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <button
+                onClick={() => setCameraIndex(cameraIndex === index ? null : index)}
+                className={`flex items-center gap-1.5 text-[10px] font-mono uppercase ${cameraIndex === index ? 'text-blue-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                title="Camera report"
+              >
+                <Camera className="w-3 h-3" />
+                <span className="truncate">{getCameraReport(shot.camera).join(' · ') || 'Camera'}</span>
+              </button>
+              {cameraIndex === index && (
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="number"
+                    list="lens-presets"
+                    min={MIN_LENS_MM}
+                    max={MAX_LENS_MM}
+                    value={lensDraft ?? shot.camera?.lens_mm ?? ''}
+                    onChange={(e) => setLensDraft(e.target.value)}
+                    onBlur={() => commitLens(index)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    placeholder="Lens mm"
+                    className={fieldClass}
+                    title="Focal length in mm"
+                  />
+                  {cameraSelects.map(({ field, label, values }) => (
+                    <select
+                      key={field}
+                      value={shot.camera?.[field] ?? ''}
+                      onChange={(e) => updateCamera(index, { [field]: e.target.value || undefined })}
+                      className={`${fieldClass} min-w-0`}
+                      title={label}
+                    >
+                      <option value="">{label}</option>
+                      {values.map(value => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  ))}
+                  {isMovingShot(shot) && (
+                    <label className="col-span-3 flex items-center gap-2 text-[10px] font-mono uppercase text-zinc-400">
+                      <input
+                        type="checkbox"
+                        checked={!!shot.end_frame}
+                        onChange={(e) => updateShot(index, { end_frame: e.target.checked || undefined })}
+                        className="accent-blue-500"
+                      />
+                      Also render the end frame of the move
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {previewIndex === index && (
+              <pre className="p-2 rounded-md bg-zinc-950 border border-zinc-800 text-[10px] leading-relaxed text-zinc-400 whitespace-pre-wrap font-mono">
+                {getPromptPreview(shot)}
+              </pre>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1 text-zinc-500">
+            <button
+              onClick={() => setPreviewIndex(previewIndex === index ? null : index)}
+              className={`p-1 hover:text-white ${previewIndex === index ? 'text-blue-400' : ''}`}
+              title="Preview the final prompt"
+            >
+              {previewIndex === index ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            </button>
+            <button onClick={() => handleDuplicate(index)} className="p-1 hover:text-white" title="Duplicate shot">
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => handleDelete(index)} className="p-1 hover:text-red-400" title="Delete shot">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <datalist id="lens-presets">
+        {LENS_PRESETS_MM.map(mm => <option key={mm} value={mm} />)}
+      </datalist>
+
+      <button
+        onClick={handleAdd}
+        className="w-full py-2 rounded-lg border-2 border-dashed border-zinc-800 hover:border-blue-500/50 text-xs text-zinc-500 hover:text-blue-400 flex items-center justify-center gap-1 transition-colors"
+      >
+        <Plus className="w-3 h-3" /> Add Shot
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectSnapshot, Scene, SnapshotShot } from '../types';
+import { diffSnapshots, ShotChangeKind } from '../services/snapshotService';
+import { getShotNumbers } from '../services/sceneService';
+import { parseAspectRatio } from '../utils/aspectRatio';
+import { Button } from './Button';
+import { ArrowRight, History, Plus, RefreshCw, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface SnapshotDialogProps {
+  snapshots: ProjectSnapshot[];
+  current: SnapshotShot[]; // The shot list as it is now, with the Dailies frames
+  scenes: Scene[];
+  changedCount: number | null; // Shots the next "render changed" would queue; null when the list is invalid
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  onRenderChanged: () => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const KIND_CLASSES: Record<ShotChangeKind, string> = {
+  added: 'border-emerald-500/50 text-emerald-300',
+  removed: 'border-red-500/50 text-red-300',
+  changed: 'border-amber-500/50 text-amber-300',
+  unchanged: 'border-zinc-700 text-zinc-500',
+};
+
+const KIND_TEXT_CLASSES: Record<ShotChangeKind, string> = {
+  added: 'text-emerald-300',
+  removed: 'text-red-300',
+  changed: 'text-amber-300',
+  unchanged: 'text-zinc-500',
+};
+
+const selectClass = "bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+const formatSnapshotTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const Frame: React.FC<{ shot?: SnapshotShot; number?: string }> = ({ shot, number }) => (
+  <div className="space-y-1 min-w-0">
+    <div
+      className="bg-black rounded border border-zinc-800 flex items-center justify-center text-[10px] font-mono text-zinc-600 overflow-hidden"
+      style={{ aspectRatio: shot ? parseAspectRatio(shot.aspect_ratio) : 16 / 9 }}
+    >
+      {shot?.take ? <img src={shot.take.imageUrl} alt={shot.prompt} className="w-full h-full object-contain" /> : (shot ? 'NO FRAME' : '')}
+    </div>
+    {shot && (
+      <p className="text-[10px] font-mono uppercase text-zinc-500 truncate">
+        <span className="text-blue-500 font-bold">{number}</span> {shot.shot_type}
+      </p>
+    )}
+  </div>
+);
+
+/**
+ * Named snapshots of the shot list and its frames, and a diff between any
+ * two of them or the current list.
+ */
+export const SnapshotDialog: React.FC<SnapshotDialogProps> = ({
+  snapshots,
+  current,
+  scenes,
+  changedCount,
+  onCreate,
+  onDelete,
+  onRestore,
+  onRenderChanged,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [fromId, setFromId] = useState<string>(snapshots[snapshots.length - 1]?.id ?? CURRENT);
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [isHidingUnchanged, setIsHidingUnchanged] = useState(true);
+
+  const resolve = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    return snapshot ? { shots: snapshot.shots, scenes: snapshot.scenes } : { shots: current, scenes };
+  };
+  const from = resolve(fromId);
+  const to = resolve(toId);
+
+  const diffs = useMemo(() => diffSnapshots(from.shots, to.shots), [from.shots, to.shots]);
+  const fromNumbers = useMemo(() => new Map(getShotNumbers(from.shots, from.scenes).map((n, i) => [from.shots[i].id, n])), [from.shots, from.scenes]);
+  const toNumbers = useMemo(() => new Map(getShotNumbers(to.shots, to.scenes).map((n, i) => [to.shots[i].id, n])), [to.shots, to.scenes]);
+  const visible = isHidingUnchanged ? diffs.filter(diff => diff.kind !== 'unchanged' || diff.isMoved) : diffs;
+  const summary = (['added', 'removed', 'changed'] as const)
+    .map(kind => [kind, diffs.filter(diff => diff.kind === kind).length] as const)
+    .filter(([, count]) => count > 0);
+  const movedCount = diffs.filter(diff => diff.isMoved).length;
+
+  const handleCreate = () => {
+    onCreate(name.trim() || `Snapshot ${snapshots.length + 1}`);
+    setName('');
+  };
+
+  const handleDelete = (id: string) => {
+    onDelete(id);
+    if (fromId === id) setFromId(CURRENT);
+    if (toId === id) setToId(CURRENT);
+  };
+
+  const snapshotOptions = (
+    <>
+      <option value={CURRENT}>Current shot list</option>
+      {snapshots.map(snapshot => (
+        <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl h-full max-h-[90vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <History className="w-4 h-4 text-blue-500" />
+            Snapshots
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[16rem_1fr]">
+          {/* Snapshot list */}
+          <div className="p-4 space-y-3 border-r border-zinc-800 overflow-y-auto">
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder={`Snapshot ${snapshots.length + 1}`}
+                className={`${selectClass} flex-1 min-w-0`}
+              />
+              <button onClick={handleCreate} className="p-1.5 rounded-md border border-zinc-800 text-blue-400 hover:text-blue-300" title="Save the shot list and frames as they are now">
+                <Plus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {snapshots.length === 0 && (
+              <p className="text-xs text-zinc-500 leading-relaxed">
+                Save a snapshot before revising the shot list to see what changed in the next pass.
+              </p>
+            )}
+            {[...snapshots].reverse().map(snapshot => (
+              <div key={snapshot.id} className="p-2 rounded-lg border border-zinc-800 bg-zinc-900 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 text-xs text-zinc-200 truncate" title={snapshot.name}>{snapshot.name}</span>
+                  <button onClick={() => onRestore(snapshot)} className="text-zinc-500 hover:text-zinc-200" title="Restore this shot list; the Dailies keep their takes">
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDelete(snapshot.id)} className="text-zinc-600 hover:text-red-400" title="Delete snapshot">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <p className="text-[10px] font-mono text-zinc-500">
+                  {formatSnapshotTime(snapshot.createdAt)} • {snapshot.shots.length} shots
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex flex-col min-h-0">
+            <div className="px-5 py-3 border-b border-zinc-800 flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+              <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass} title="Older revision">
+                {snapshotOptions}
+              </select>
+              <ArrowRight className="w-3.5 h-3.5 text-zinc-600" />
+              <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass} title="Newer revision">
+                {snapshotOptions}
+              </select>
+              <span className="flex gap-2 text-[10px] font-mono uppercase">
+                {summary.map(([kind, count]) => (
+                  <span key={kind} className={KIND_TEXT_CLASSES[kind]}>{count} {kind}</span>
+                ))}
+                {movedCount > 0 && <span className="text-blue-300">{movedCount} moved</span>}
+                {summary.length === 0 && movedCount === 0 && <span>No differences</span>}
+              </span>
+              <label className="ml-auto flex items-center gap-2 text-[10px] font-mono uppercase">
+                <input type="checkbox" checked={isHidingUnchanged} onChange={(e) => setIsHidingUnchanged(e.target.checked)} />
+                Hide unchanged
+              </label>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 space-y-3">
+              {visible.map(diff => {
+                const id = (diff.after ?? diff.before)!.id;
+                const isReworded = diff.changes.includes('Prompt');
+                return (
+                  <div key={`${diff.kind}-${id}`} className="p-3 rounded-lg border border-zinc-800 bg-zinc-900 grid grid-cols-[1fr_1fr_1.4fr] gap-3">
+                    <Frame shot={diff.before} number={fromNumbers.get(id)} />
+                    <Frame shot={diff.after} number={toNumbers.get(id)} />
+                    <div className="space-y-2 min-w-0 text-xs">
+                      <div className="flex flex-wrap gap-1 text-[10px] font-mono uppercase">
+                        <span className={`px-1.5 py-0.5 rounded border ${KIND_CLASSES[diff.kind]}`}>{diff.kind}</span>
+                        {diff.isMoved && <span className="px-1.5 py-0.5 rounded border border-blue-500/50 text-blue-300">Moved</span>}
+                        {diff.changes.filter(change => change !== 'Prompt').map(change => (
+                          <span key={change} className="px-1.5 py-0.5 rounded border border-zinc-700 text-zinc-400">{change}</span>
+                        ))}
+                      </div>
+                      {isReworded ? (
+                        <>
+                          <p className="text-red-300/80 line-through line-clamp-3">{diff.before!.prompt}</p>
+                          <p className="text-emerald-300/90 line-clamp-3">{diff.after!.prompt}</p>
+                        </>
+                      ) : (
+                        <p className="text-zinc-400 line-clamp-3">{(diff.after ?? diff.before)!.prompt}</p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-5 py-4 border-t border-zinc-800 flex justify-between items-center gap-2">
+          <span className="text-xs text-zinc-500">
+            {changedCount === null
+              ? "Fix the shot list to render it."
+              : `${changedCount} of ${current.length} shots differ from the frames in the Dailies. Unchanged shots keep their frames.`}
+          </span>
+          <Button
+            onClick={onRenderChanged}
+            disabled={!changedCount}
+            className="text-xs"
+            icon={<RefreshCw className="w-3 h-3" />}
+            title="Prompt snippets, styles and cast references are looked up by name, so edits to them don't count as changes"
+          >
+            Render Changed Shots
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
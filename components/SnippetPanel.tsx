@@ -0,0 +1,96 @@
+import React from 'react';
+import { PromptSnippet } from '../types';
+import { isValidSnippetName, SHOT_VARIABLE_NAMES } from '../services/promptTemplate';
+import { generateId } from '../utils/ids';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface SnippetPanelProps {
+  snippets: PromptSnippet[];
+  onChange: (snippets: PromptSnippet[]) => void;
+}
+
+const fieldClass = "bg-zinc-950 border rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+/**
+ * Project library of reusable prompt text, used in shot prompts as `{{name}}`.
+ */
+export const SnippetPanel: React.FC<SnippetPanelProps> = ({ snippets, onChange }) => {
+  const updateSnippet = (id: string, changes: Partial<PromptSnippet>) => {
+    onChange(snippets.map(snippet => (snippet.id === id ? { ...snippet, ...changes } : snippet)));
+  };
+
+  const handleAdd = () => {
+    onChange([...snippets, { id: generateId(), name: '', value: '' }]);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(snippets.filter(snippet => snippet.id !== id));
+  };
+
+  const getNameProblem = (snippet: PromptSnippet): string | null => {
+    const name = snippet.name.trim();
+    if (!name) return "Give the snippet a name, e.g. location.alley";
+    if (SHOT_VARIABLE_NAMES.includes(name)) return `"${name}" is filled in from the shot`;
+    if (!isValidSnippetName(name)) return "Use letters, digits, - and _, separated by dots";
+    if (snippets.some(other => other.id !== snippet.id && other.name.trim() === name)) return `"${name}" is defined twice`;
+    return null;
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+          Snippets
+        </h2>
+        <button
+          onClick={handleAdd}
+          className="text-[10px] uppercase font-bold text-blue-500 hover:text-blue-400 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add Snippet
+        </button>
+      </div>
+
+      {snippets.length === 0 && (
+        <p className="text-xs text-zinc-500 leading-relaxed">
+          Reuse descriptions across shots: define <code className="text-zinc-300">location.alley</code> here and
+          write <code className="text-zinc-300">{'{{location.alley}}'}</code> in a prompt.
+          Blocks like <code className="text-zinc-300">{'{{#if char.hero}}…{{else}}…{{/if}}'}</code> are kept only when the snippet is set.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {snippets.map(snippet => {
+          const problem = getNameProblem(snippet);
+          return (
+            <div key={snippet.id} className="p-2 rounded-lg border border-zinc-800 bg-zinc-900 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-zinc-600">{'{{'}</span>
+                <input
+                  value={snippet.name}
+                  onChange={(e) => updateSnippet(snippet.id, { name: e.target.value })}
+                  placeholder="char.hero"
+                  className={`${fieldClass} flex-1 min-w-0 font-mono ${problem ? 'border-red-500/50' : 'border-zinc-800'}`}
+                  title={problem ?? undefined}
+                  spellCheck={false}
+                />
+                <span className="text-xs font-mono text-zinc-600">{'}}'}</span>
+                <button onClick={() => handleDelete(snippet.id)} className="text-zinc-600 hover:text-red-400" title="Delete snippet">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <textarea
+                value={snippet.value}
+                onChange={(e) => updateSnippet(snippet.id, { value: e.target.value })}
+                rows={2}
+                placeholder="Text inserted into the prompt"
+                className={`${fieldClass} w-full border-zinc-800 resize-y leading-relaxed`}
+              />
+              {problem && <p className="text-[10px] text-red-400">{problem}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
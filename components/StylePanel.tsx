@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { StylePreset } from '../types';
+import { createStylePreset } from '../services/styleService';
+import { ChevronDown, ChevronRight, Copy, Plus, Star, Trash2 } from 'lucide-react';
+
+interface StylePanelProps {
+  styles: StylePreset[];
+  projectStyleId: string | null;
+  onChange: (styles: StylePreset[]) => void;
+  onProjectStyleChange: (id: string | null) => void;
+}
+
+const FIELDS: { key: keyof Omit<StylePreset, 'id' | 'name'>; label: string; placeholder: string }[] = [
+  { key: 'medium', label: 'Medium', placeholder: 'e.g. photorealistic film still, pencil sketch' },
+  { key: 'palette', label: 'Palette', placeholder: 'e.g. teal and orange, muted pastels' },
+  { key: 'lens', label: 'Lens', placeholder: 'e.g. 35mm anamorphic, shallow depth of field' },
+  { key: 'filmStock', label: 'Film Stock', placeholder: 'e.g. Kodak Vision3 500T' },
+  { key: 'negativePrompt', label: 'Avoid', placeholder: 'e.g. text, watermarks, extra limbs' },
+];
+
+const fieldClass = "w-full bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+export const StylePanel: React.FC<StylePanelProps> = ({ styles, projectStyleId, onChange, onProjectStyleChange }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateStyle = (id: string, changes: Partial<StylePreset>) => {
+    onChange(styles.map(style => (style.id === id ? { ...style, ...changes } : style)));
+  };
+
+  const handleAdd = () => {
+    const style = createStylePreset({ name: `Style ${styles.length + 1}` });
+    onChange([...styles, style]);
+    setExpandedId(style.id);
+  };
+
+  const handleDuplicate = (style: StylePreset) => {
+    const { id, ...fields } = style;
+    const copy = createStylePreset({ ...fields, name: `${style.name} Copy` });
+    onChange([...styles, copy]);
+    setExpandedId(copy.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(styles.filter(style => style.id !== id));
+    if (projectStyleId === id) onProjectStyleChange(null);
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+          Look
+        </h2>
+        <button
+          onClick={handleAdd}
+          className="text-[10px] uppercase font-bold text-blue-500 hover:text-blue-400 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add Style
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-zinc-400">
+        <span className="uppercase font-bold text-[10px] text-zinc-500 shrink-0">Project Style</span>
+        <select
+          value={projectStyleId ?? ''}
+          onChange={(e) => onProjectStyleChange(e.target.value || null)}
+          className={fieldClass}
+        >
+          <option value="">None (default look)</option>
+          {styles.map(style => (
+            <option key={style.id} value={style.id}>{style.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-1">
+        {styles.map(style => {
+          const isExpanded = expandedId === style.id;
+          const isProjectStyle = style.id === projectStyleId;
+          return (
+            <div key={style.id} className="border border-zinc-800 bg-zinc-900 rounded-lg">
+              <div className="flex items-center gap-2 px-2 py-1.5">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : style.id)}
+                  className="flex-1 flex items-center gap-1 text-xs text-zinc-300 hover:text-white text-left min-w-0"
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                  <span className="truncate">{style.name}</span>
+                </button>
+                <button
+                  onClick={() => onProjectStyleChange(style.id)}
+                  className={isProjectStyle ? 'text-amber-400' : 'text-zinc-600 hover:text-zinc-300'}
+                  title={isProjectStyle ? "Project style" : "Use as project style"}
+                >
+                  <Star className={`w-3.5 h-3.5 ${isProjectStyle ? 'fill-current' : ''}`} />
+                </button>
+                <button onClick={() => handleDuplicate(style)} className="text-zinc-600 hover:text-white" title="Duplicate style">
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(style.id)} className="text-zinc-600 hover:text-red-400" title="Delete style">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-2">
+                  <input
+                    value={style.name}
+                    onChange={(e) => updateStyle(style.id, { name: e.target.value })}
+                    placeholder="Style name"
+                    className={`${fieldClass} text-sm`}
+                    spellCheck={false}
+                  />
+                  {FIELDS.map(field => (
+                    <label key={field.key} className="block space-y-1">
+                      <span className="uppercase font-bold text-[10px] text-zinc-500">{field.label}</span>
+                      <input
+                        value={style[field.key]}
+                        onChange={(e) => updateStyle(style.id, { [field.key]: e.target.value })}
+                        placeholder={field.placeholder}
+                        className={fieldClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
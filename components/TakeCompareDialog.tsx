@@ -0,0 +1,73 @@
+import React from 'react';
+import { GeneratedShot } from '../types';
+import { Circle, CircleCheck, Columns2, X } from 'lucide-react';
+import { parseAspectRatio } from '../utils/aspectRatio';
+
+interface TakeCompareDialogProps {
+  shot: GeneratedShot;
+  number: string; // Production shot number
+  onCircleTake: (takeId: string) => void;
+  onClose: () => void;
+}
+
+const formatTakeTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+export const TakeCompareDialog: React.FC<TakeCompareDialogProps> = ({ shot, number, onCircleTake, onClose }) => {
+  // Two takes sit side by side; more wrap into a grid
+  const columns = shot.takes.length <= 2 ? 'grid-cols-2' : 'grid-cols-2 xl:grid-cols-3';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-full flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="text-sm font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+            <Columns2 className="w-4 h-4 text-blue-500" />
+            Shot {number} • {shot.takes.length} Takes
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className={`p-5 grid ${columns} gap-4 overflow-y-auto`}>
+          {shot.takes.map((take, takeIndex) => {
+            const isCircled = take.id === shot.circledTakeId;
+            return (
+              <div
+                key={take.id}
+                className={`flex flex-col bg-zinc-900 border rounded-lg overflow-hidden ${isCircled ? 'border-emerald-500/60' : 'border-zinc-800'}`}
+              >
+                <div className="bg-black" style={{ aspectRatio: parseAspectRatio(shot.aspect_ratio) }}>
+                  <img src={take.imageUrl} alt={take.prompt} className="w-full h-full object-contain" />
+                </div>
+                <div className="p-3 space-y-2 text-xs">
+                  <div className="flex items-center justify-between font-mono uppercase text-[10px] text-zinc-500">
+                    <span className="text-zinc-300">Take {takeIndex + 1}</span>
+                    <button
+                      onClick={() => onCircleTake(take.id)}
+                      className={`flex items-center gap-1 ${isCircled ? 'text-emerald-400' : 'hover:text-zinc-300'}`}
+                    >
+                      {isCircled ? <CircleCheck className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+                      {isCircled ? 'Circled' : 'Circle'}
+                    </button>
+                  </div>
+                  <p className="text-zinc-300 line-clamp-3" title={take.prompt}>{take.prompt}</p>
+                  <p className="font-mono text-[10px] text-zinc-500">
+                    {formatTakeTime(take.generatedAt)}
+                    {take.seed !== undefined && ` • seed ${take.seed}`}
+                    {take.model && ` • ${take.model}`}
+                    {take.consistency && ` • match ${Math.round(take.consistency.score * 100)}%`}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, GeneratedShot, Scene } from '../types';
+import { AnimaticAudio, AnimaticTransition, getMostCommonAspectRatio } from '../services/animatic';
+import { isVideoExportSupported, renderAnimaticVideo, VIDEO_RESOLUTIONS } from '../services/animaticVideo';
+import { isAbortError } from '../services/generationQueue';
+import { downloadBlob, formatTimestamp, toFileSlug } from '../utils/download';
+import { Button } from './Button';
+import { Video, X } from 'lucide-react';
+
+interface VideoExportPanelProps {
+  projectName: string;
+  shots: GeneratedShot[];
+  transition: AnimaticTransition;
+  audio: AnimaticAudio | null;
+  captions: string[]; // Final prompt per shot
+  scenes: Scene[];
+  onClose: () => void;
+}
+
+const FPS = 24;
+
+const selectClass = "w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50";
+
+/**
+ * Renders the animatic to a WebM file using the player's transition and audio.
+ */
+export const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ projectName, shots, transition, audio, captions, scenes, onClose }) => {
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(() => getMostCommonAspectRatio(shots));
+  const [longEdge, setLongEdge] = useState(VIDEO_RESOLUTIONS[0].longEdge);
+  const [shotNumbers, setShotNumbers] = useState(true);
+  const [burnCaptions, setBurnCaptions] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop recording if the panel goes away mid-export
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await renderAnimaticVideo(shots, {
+        aspectRatio,
+        longEdge,
+        fps: FPS,
+        transition,
+        shotNumbers,
+        scenes,
+        captions: burnCaptions ? captions : undefined,
+        audioUrl: audio?.url,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, `${toFileSlug(projectName)}_animatic_${formatTimestamp()}.webm`);
+    } catch (e: any) {
+      if (!isAbortError(e)) setError(e.message || "Export failed");
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isRecording = progress !== null;
+
+  return (
+    <div className="absolute bottom-full right-5 mb-2 w-80 bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl text-xs text-zinc-400">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+        <h3 className="font-semibold text-zinc-100 uppercase tracking-wider flex items-center gap-2">
+          <Video className="w-4 h-4 text-blue-500" />
+          Export WebM
+        </h3>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {!isVideoExportSupported() && (
+          <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400">
+            This browser can't record WebM video. Try Chrome, Edge or Firefox.
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block space-y-1">
+            <span className="uppercase font-bold text-[10px] text-zinc-500">Frame</span>
+            <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as AspectRatio)} className={selectClass} disabled={isRecording}>
+              {Object.values(AspectRatio).map(ratio => (
+                <option key={ratio} value={ratio}>{ratio}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="uppercase font-bold text-[10px] text-zinc-500">Resolution</span>
+            <select value={longEdge} onChange={(e) => setLongEdge(Number(e.target.value))} className={selectClass} disabled={isRecording}>
+              {VIDEO_RESOLUTIONS.map(({ label, longEdge }) => (
+                <option key={longEdge} value={longEdge}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={shotNumbers} onChange={(e) => setShotNumbers(e.target.checked)} disabled={isRecording} />
+          Burn in shot numbers
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={burnCaptions} onChange={(e) => setBurnCaptions(e.target.checked)} disabled={isRecording} />
+          Burn in prompts as captions
+        </label>
+        <p className="text-zinc-500">
+          Uses the {transition} transition{audio ? ` and ${audio.name}` : ''}. Recording runs in real time; keep this tab visible.
+        </p>
+
+        {isRecording && (
+          <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-950/30 border border-red-900/50 rounded-md text-red-400">{error}</div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-zinc-800 flex justify-end gap-2">
+        {isRecording ? (
+          <Button variant="ghost" onClick={() => controllerRef.current?.abort()} className="text-xs">
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleExport} disabled={!isVideoExportSupported()} className="text-xs" icon={<Video className="w-3 h-3" />}>
+            Record
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import { AspectRatio, GeneratedShot } from "../types";
+import { getPrimaryTake } from "./takeService";
+import { parseAspectRatio } from "../utils/aspectRatio";
+
+export const DEFAULT_SHOT_DURATION = 3; // Seconds, for shots without a duration
+
+export const CROSSFADE_SECONDS = 0.5;
+
+export type AnimaticTransition = 'cut' | 'crossfade';
+
+// Scratch dialogue or music played under the animatic
+export interface AnimaticAudio {
+  name: string;
+  url: string; // Object URL
+}
+
+export interface AnimaticClip {
+  shotId: string;
+  index: number; // Position in the shot list
+  imageUrl?: string; // Primary take; missing until the shot has rendered
+  ratio: number;
+  start: number; // Seconds from the start of the animatic
+  duration: number;
+}
+
+export interface AnimaticTimeline {
+  clips: AnimaticClip[];
+  totalDuration: number;
+}
+
+/**
+ * What is on screen at a moment: the current clip and, during a crossfade,
+ * the next clip blended over it at `mix` (0 to 1).
+ */
+export interface AnimaticFrame {
+  clip: AnimaticClip;
+  next?: AnimaticClip;
+  mix: number;
+}
+
+/**
+ * Lays the shots end to end, each showing its primary take.
+ */
+export const buildAnimaticTimeline = (shots: GeneratedShot[]): AnimaticTimeline => {
+  let start = 0;
+  const clips = shots.map((shot, index) => {
+    const duration = shot.duration ?? DEFAULT_SHOT_DURATION;
+    const clip: AnimaticClip = {
+      shotId: shot.id,
+      index,
+      imageUrl: getPrimaryTake(shot)?.imageUrl,
+      ratio: parseAspectRatio(shot.aspect_ratio),
+      start,
+      duration,
+    };
+    start += duration;
+    return clip;
+  });
+  return { clips, totalDuration: start };
+};
+
+/**
+ * The ratio most shots use, so the fewest get letterboxed in a single output frame.
+ */
+export const getMostCommonAspectRatio = (shots: GeneratedShot[]): AspectRatio => {
+  const counts = new Map<AspectRatio, number>();
+  shots.forEach(shot => counts.set(shot.aspect_ratio, (counts.get(shot.aspect_ratio) ?? 0) + 1));
+  let best = AspectRatio.WIDESCREEN;
+  counts.forEach((count, ratio) => {
+    if (count > (counts.get(best) ?? 0)) best = ratio;
+  });
+  return best;
+};
+
+export const findClipIndex = (timeline: AnimaticTimeline, time: number): number => {
+  const index = timeline.clips.findIndex(clip => time < clip.start + clip.duration);
+  return index === -1 ? timeline.clips.length - 1 : index;
+};
+
+/**
+ * Crossfades overlap the end of the outgoing clip, so cuts land on the same
+ * times either way. Short clips get shorter fades.
+ */
+export const getAnimaticFrame = (
+  timeline: AnimaticTimeline,
+  time: number,
+  transition: AnimaticTransition
+): AnimaticFrame | null => {
+  const index = findClipIndex(timeline, time);
+  const clip = timeline.clips[index];
+  if (!clip) return null;
+  const next = timeline.clips[index + 1];
+  if (transition === 'cut' || !next) return { clip, mix: 0 };
+
+  const fade = Math.min(CROSSFADE_SECONDS, clip.duration / 2, next.duration / 2);
+  const fadeStart = clip.start + clip.duration - fade;
+  if (time < fadeStart) return { clip, mix: 0 };
+  return { clip, next, mix: Math.min(1, (time - fadeStart) / fade) };
+};
+
+export const formatTimecode = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
@@ -0,0 +1,170 @@
+import { AspectRatio, GeneratedShot, Scene } from "../types";
+import { AnimaticClip, AnimaticTransition, buildAnimaticTimeline, getAnimaticFrame } from "./animatic";
+import { getShotNumbers } from "./sceneService";
+import { abortableDelay } from "./generationQueue";
+import { getFrameSize, parseAspectRatio } from "../utils/aspectRatio";
+import { drawImageContain, drawWrappedText, loadImage } from "../utils/canvas";
+
+export interface AnimaticVideoOptions {
+  aspectRatio: AspectRatio; // Output frame; shots at other ratios are letterboxed inside it
+  longEdge: number; // Pixels
+  fps: number;
+  transition: AnimaticTransition;
+  shotNumbers: boolean; // Burn in the production shot number, e.g. "12A"
+  scenes?: Scene[]; // Shots are numbered from these
+  captions?: string[]; // One per shot, burned in along the bottom
+  audioUrl?: string; // Mixed in from the start and cut at the end of the video
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export const VIDEO_RESOLUTIONS = [
+  { label: '720p', longEdge: 1280 },
+  { label: '1080p', longEdge: 1920 },
+];
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+const pickMimeType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const isVideoExportSupported = (): boolean => !!pickMimeType();
+
+/**
+ * Records the animatic to WebM with canvas and MediaRecorder, entirely in the
+ * browser. The recorder timestamps frames as they arrive, so rendering takes
+ * as long as the animatic runs; background tabs are throttled and will stutter.
+ */
+export const renderAnimaticVideo = async (shots: GeneratedShot[], options: AnimaticVideoOptions): Promise<Blob> => {
+  const mimeType = pickMimeType();
+  if (!mimeType) {
+    throw new Error("This browser can't record WebM video.");
+  }
+  const timeline = buildAnimaticTimeline(shots);
+  if (timeline.clips.length === 0) {
+    throw new Error("There are no shots to export.");
+  }
+
+  const images = new Map<string, HTMLImageElement | null>();
+  await Promise.all(timeline.clips.map(async clip => {
+    if (clip.imageUrl) images.set(clip.shotId, await loadImage(clip.imageUrl));
+  }));
+
+  const numbers = getShotNumbers(shots, options.scenes ?? []);
+  const size = getFrameSize(options.aspectRatio, options.longEdge);
+  const frameRatio = parseAspectRatio(options.aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  const fontSize = Math.round(size.height * 0.035);
+  const padding = Math.round(fontSize * 0.6);
+
+  const drawClip = (clip: AnimaticClip, alpha: number) => {
+    // The shot at its own ratio, fitted inside the output frame
+    const width = clip.ratio >= frameRatio ? size.width : size.height * clip.ratio;
+    const height = width / clip.ratio;
+    const x = (size.width - width) / 2;
+    const y = (size.height - height) / 2;
+
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(x, y, width, height);
+    const img = images.get(clip.shotId);
+    if (img) {
+      drawImageContain(ctx, img, x, y, width, height);
+    } else {
+      ctx.fillStyle = '#52525b';
+      ctx.font = `${fontSize}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(`SHOT ${numbers[clip.index]} • NO FRAME`, size.width / 2, size.height / 2);
+    }
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    if (options.shotNumbers) {
+      const label = numbers[clip.index];
+      ctx.font = `bold ${fontSize}px monospace`;
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(x + padding, y + padding, ctx.measureText(label).width + padding * 2, fontSize + padding);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(label, x + padding * 2, y + padding * 1.5);
+    }
+
+    const caption = options.captions?.[clip.index];
+    if (caption) {
+      const lineHeight = fontSize * 1.3;
+      const bandHeight = lineHeight * 2 + padding * 2;
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(x, y + height - bandHeight, width, bandHeight);
+      ctx.font = `${fontSize}px sans-serif`;
+      ctx.fillStyle = '#fff';
+      drawWrappedText(ctx, caption, x + padding * 2, y + height - bandHeight + padding, width - padding * 4, lineHeight, 2);
+    }
+    ctx.globalAlpha = 1;
+  };
+
+  const draw = (time: number) => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size.width, size.height);
+    const frame = getAnimaticFrame(timeline, time, options.transition)!;
+    drawClip(frame.clip, 1);
+    if (frame.next) drawClip(frame.next, frame.mix);
+  };
+  draw(0);
+
+  const stream = canvas.captureStream(options.fps);
+  let audio: { context: AudioContext; source: AudioBufferSourceNode } | null = null;
+  if (options.audioUrl) {
+    const context = new AudioContext();
+    try {
+      const data = await (await fetch(options.audioUrl)).arrayBuffer();
+      const source = context.createBufferSource();
+      source.buffer = await context.decodeAudioData(data);
+      const destination = context.createMediaStreamDestination();
+      source.connect(destination);
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+      audio = { context, source };
+    } catch (e) {
+      context.close();
+      throw new Error("Could not decode the audio track.", { cause: e });
+    }
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start(1000);
+  audio?.source.start();
+  const startedAt = performance.now();
+  try {
+    while (true) {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      if (elapsed >= timeline.totalDuration) break;
+      draw(elapsed);
+      options.onProgress?.(elapsed / timeline.totalDuration);
+      await abortableDelay(1000 / options.fps, options.signal);
+    }
+    draw(timeline.totalDuration);
+  } finally {
+    recorder.stop();
+    if (audio) {
+      audio.source.stop();
+      audio.context.close();
+    }
+    stream.getTracks().forEach(track => track.stop());
+    await stopped;
+  }
+
+  options.onProgress?.(1);
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,136 @@
+import { CameraAngle, CameraHeight, CameraMovement, CameraSettings, DepthOfField, LightingKey, ShotConfig } from "../types";
+
+/**
+ * Camera report fields and the prompt language they turn into. Every field
+ * maps onto a fixed phrase so the same settings always read the same way to
+ * the model.
+ */
+
+export const LENS_PRESETS_MM = [14, 18, 24, 35, 50, 85, 100, 135];
+
+export const MIN_LENS_MM = 8;
+export const MAX_LENS_MM = 600;
+
+// Which end of a camera move a frame shows
+export type MovePosition = 'start' | 'end';
+
+const HEIGHT_PHRASES: Record<CameraHeight, string> = {
+  [CameraHeight.GROUND]: 'camera resting on the ground',
+  [CameraHeight.KNEE]: 'camera at knee height',
+  [CameraHeight.HIP]: 'camera at hip height',
+  [CameraHeight.EYE]: "camera at the subject's eye level",
+  [CameraHeight.SHOULDER]: 'camera at shoulder height',
+  [CameraHeight.HIGH]: 'camera raised well above the subject',
+  [CameraHeight.OVERHEAD]: 'camera directly overhead',
+};
+
+const ANGLE_PHRASES: Record<CameraAngle, string> = {
+  [CameraAngle.LEVEL]: 'level with the horizon',
+  [CameraAngle.LOW]: 'tilted up at the subject from below',
+  [CameraAngle.HIGH]: 'tilted down at the subject from above',
+  [CameraAngle.DUTCH]: 'rolled to a canted Dutch angle',
+  [CameraAngle.TOP_DOWN]: 'pointing straight down',
+};
+
+const MOVEMENT_PHRASES: Record<CameraMovement, string> = {
+  [CameraMovement.STATIC]: 'locked off on a tripod, no movement',
+  [CameraMovement.PAN]: 'panning horizontally across the scene',
+  [CameraMovement.TILT]: 'tilting vertically',
+  [CameraMovement.DOLLY_IN]: 'dollying in toward the subject',
+  [CameraMovement.DOLLY_OUT]: 'dollying back away from the subject',
+  [CameraMovement.TRUCK]: 'trucking sideways alongside the action',
+  [CameraMovement.CRANE_UP]: 'craning up and away',
+  [CameraMovement.CRANE_DOWN]: 'craning down toward the subject',
+  [CameraMovement.HANDHELD]: 'handheld, with a slight organic sway',
+  [CameraMovement.STEADICAM]: 'gliding on a Steadicam',
+  [CameraMovement.ZOOM_IN]: 'zooming in',
+  [CameraMovement.ZOOM_OUT]: 'zooming out',
+};
+
+const DEPTH_OF_FIELD_PHRASES: Record<DepthOfField, string> = {
+  [DepthOfField.SHALLOW]: 'shallow depth of field, background melting into soft bokeh',
+  [DepthOfField.MEDIUM]: 'moderate depth of field, background slightly soft',
+  [DepthOfField.DEEP]: 'deep focus, foreground and background both sharp',
+};
+
+const LIGHTING_PHRASES: Record<LightingKey, string> = {
+  [LightingKey.HIGH_KEY]: 'high key, bright and even with soft shadows',
+  [LightingKey.LOW_KEY]: 'low key, hard contrast and deep shadows',
+  [LightingKey.NATURAL]: 'natural available light',
+  [LightingKey.GOLDEN_HOUR]: 'golden hour, warm low sunlight with long shadows',
+  [LightingKey.BLUE_HOUR]: 'blue hour, cool twilight ambience',
+  [LightingKey.NIGHT]: 'night, lit by practical and moonlight sources',
+  [LightingKey.SILHOUETTE]: 'subject silhouetted against a bright background',
+};
+
+const describeLens = (mm: number): string => {
+  const kind = mm < 20 ? 'ultra wide-angle'
+    : mm <= 35 ? 'wide-angle'
+    : mm < 70 ? 'normal'
+    : mm < 135 ? 'short telephoto'
+    : 'telephoto';
+  return `${mm}mm ${kind} lens, with its perspective and field of view`;
+};
+
+/**
+ * Whether the camera travels during the shot, so it has distinct first and
+ * last frames.
+ */
+export const isMovingShot = (shot: Pick<ShotConfig, 'camera'>): boolean =>
+  !!shot.camera?.movement && shot.camera.movement !== CameraMovement.STATIC;
+
+/**
+ * Whether a render of the shot produces an end frame as well.
+ */
+export const hasEndFrame = (shot: Pick<ShotConfig, 'camera' | 'end_frame'>): boolean =>
+  !!shot.end_frame && isMovingShot(shot);
+
+/**
+ * Which end of the move a render shows: the end when it continues from a
+ * start frame, the start when an end frame will follow.
+ */
+export const getMovePosition = (
+  shot: Pick<ShotConfig, 'camera' | 'end_frame'>,
+  startFrame?: string
+): MovePosition | undefined => {
+  if (startFrame) return 'end';
+  return hasEndFrame(shot) ? 'start' : undefined;
+};
+
+/**
+ * Prompt lines for the camera report. `position` is set when the start and
+ * end of a move are rendered as separate frames.
+ */
+export const describeCamera = (camera: CameraSettings | undefined, position?: MovePosition): string[] => {
+  if (!camera) return [];
+  const placement = [
+    camera.height && HEIGHT_PHRASES[camera.height],
+    camera.angle && ANGLE_PHRASES[camera.angle],
+  ].filter(Boolean).join(', ');
+  const lines = [
+    camera.lens_mm && `Lens: ${describeLens(camera.lens_mm)}.`,
+    placement && `Camera: ${placement}.`,
+    camera.movement && `Camera movement: ${MOVEMENT_PHRASES[camera.movement]}.`,
+    camera.depth_of_field && `Focus: ${DEPTH_OF_FIELD_PHRASES[camera.depth_of_field]}.`,
+    camera.lighting && `Lighting: ${LIGHTING_PHRASES[camera.lighting]}.`,
+    position === 'start' && `This is the FIRST frame of the camera move, before the camera has moved.`,
+    position === 'end' && `This is the LAST frame of the camera move. The attached START FRAME shows where the move begins: keep the same location, characters, wardrobe and lighting, with only the framing changed by the move.`,
+  ];
+  return lines.filter((line): line is string => !!line);
+};
+
+/**
+ * Short labels for the camera report strip, in a fixed order.
+ */
+export const getCameraReport = (camera: CameraSettings | undefined): string[] => {
+  if (!camera) return [];
+  const entries = [
+    camera.lens_mm && `${camera.lens_mm}mm`,
+    camera.height,
+    camera.angle,
+    camera.movement,
+    camera.depth_of_field && `${camera.depth_of_field} DoF`,
+    camera.lighting,
+  ];
+  return entries.filter((entry): entry is string => !!entry);
+};
@@ -0,0 +1,63 @@
+import { CastMember, ReferenceImage, ShotConfig } from "../types";
+import { generateId } from "../utils/ids";
+
+export const createCastMember = (name: string, referenceImages: ReferenceImage[] = []): CastMember => ({
+  id: generateId(),
+  name,
+  referenceImages,
+});
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Returns the cast members that appear in a shot. Names are matched
+ * case-insensitively. A shot without a `characters` field includes the
+ * whole cast; an empty list means nobody from the cast is in frame.
+ */
+export const resolveShotCast = (cast: CastMember[], shot: ShotConfig): CastMember[] => {
+  if (!shot.characters) return cast;
+  const wanted = new Set(shot.characters.map(normalizeName));
+  return cast.filter(member => wanted.has(normalizeName(member.name)));
+};
+
+/**
+ * The reference images of a cast member that a shot asks for. A shot without
+ * a `references` field uses all of them.
+ */
+export const getShotReferences = (member: CastMember, shot: ShotConfig): ReferenceImage[] =>
+  shot.references
+    ? member.referenceImages.filter(image => shot.references!.includes(image.angle))
+    : member.referenceImages;
+
+const describeMissingReferences = (member: CastMember, shot: ShotConfig): string =>
+  shot.references && member.referenceImages.length > 0
+    ? `Character "${member.name}" has no ${shot.references.join(' or ')} reference.`
+    : `Character "${member.name}" has no reference images.`;
+
+/**
+ * Checks that every character a shot needs exists in the cast and has at
+ * least one reference image of the angles the shot asks for. Returns a
+ * readable problem, or null if the shot can be rendered.
+ */
+export const findShotCastProblem = (cast: CastMember[], shot: ShotConfig): string | null => {
+  if (!shot.characters) {
+    if (!cast.some(member => getShotReferences(member, shot).length > 0)) {
+      return shot.references
+        ? `No cast member has a ${shot.references.join(' or ')} reference.`
+        : "Add at least one cast member with a reference image.";
+    }
+    return null;
+  }
+
+  const castByName = new Map(cast.map(member => [normalizeName(member.name), member]));
+  for (const name of shot.characters) {
+    const member = castByName.get(normalizeName(name));
+    if (!member) {
+      return `Character "${name}" is not in the cast.`;
+    }
+    if (getShotReferences(member, shot).length === 0) {
+      return describeMissingReferences(member, shot);
+    }
+  }
+  return null;
+};
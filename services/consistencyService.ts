@@ -0,0 +1,146 @@
+import { CastMember, ConsistencyScore, ShotConfig } from "../types";
+import { resolveShotCast } from "./castService";
+import { loadImage } from "../utils/canvas";
+
+/**
+ * Character consistency check that runs entirely in the browser.
+ *
+ * Each reference image and frame is reduced to colour histograms (hue,
+ * saturation and value bins, with separate bins for greys). A character's
+ * score is the best histogram intersection between the centre of any of its
+ * references and any window of the frame, so a character filling only part
+ * of the frame can still match. It tracks hair, skin and wardrobe colours
+ * well and is blind to facial structure, so treat it as a drift warning
+ * rather than an identity check.
+ */
+
+// Scores below this flag the take as drifting from the references
+export const CONSISTENCY_THRESHOLD = 0.55;
+
+const SAMPLE_EDGE = 96; // Long edge, in pixels, images are analysed at
+const HUE_BINS = 12;
+const SAT_BINS = 3;
+const VAL_BINS = 3;
+const GREY_BINS = 4; // Pixels below MIN_SATURATION are binned by brightness only
+const MIN_SATURATION = 0.15;
+const BIN_COUNT = HUE_BINS * SAT_BINS * VAL_BINS + GREY_BINS;
+
+// Windows tried on the frame, as fractions of its size, and the step between them
+const WINDOW_SIZES = [1, 0.6, 0.4];
+const WINDOW_STEP = 0.2;
+
+// Central part of a reference used, to leave out most of its background
+const REFERENCE_CROP = 0.7;
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const getPixels = async (dataUrl: string): Promise<Pixels | null> => {
+  const img = await loadImage(dataUrl);
+  if (!img) return null;
+  const scale = SAMPLE_EDGE / Math.max(img.width, img.height);
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, width, height);
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height };
+};
+
+const binForPixel = (r: number, g: number, b: number): number => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const value = max / 255;
+  const saturation = max === 0 ? 0 : (max - min) / max;
+  if (saturation < MIN_SATURATION) {
+    return HUE_BINS * SAT_BINS * VAL_BINS + Math.min(GREY_BINS - 1, Math.floor(value * GREY_BINS));
+  }
+  const delta = max - min;
+  let hue = max === r ? (g - b) / delta : max === g ? 2 + (b - r) / delta : 4 + (r - g) / delta;
+  hue = ((hue / 6) % 1 + 1) % 1;
+  const h = Math.min(HUE_BINS - 1, Math.floor(hue * HUE_BINS));
+  const s = Math.min(SAT_BINS - 1, Math.floor(saturation * SAT_BINS));
+  const v = Math.min(VAL_BINS - 1, Math.floor(value * VAL_BINS));
+  return (h * SAT_BINS + s) * VAL_BINS + v;
+};
+
+// Normalized histogram of a rectangle, in pixel coordinates
+const histogram = (pixels: Pixels, x0: number, y0: number, w: number, h: number): Float32Array => {
+  const bins = new Float32Array(BIN_COUNT);
+  let count = 0;
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const i = (y * pixels.width + x) * 4;
+      if (pixels.data[i + 3] < 128) continue; // Transparent
+      bins[binForPixel(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2])]++;
+      count++;
+    }
+  }
+  if (count > 0) bins.forEach((n, i) => (bins[i] = n / count));
+  return bins;
+};
+
+const intersect = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.min(a[i], b[i]);
+  return sum;
+};
+
+const referenceHistogram = (pixels: Pixels) => {
+  const w = Math.max(1, Math.round(pixels.width * REFERENCE_CROP));
+  const h = Math.max(1, Math.round(pixels.height * REFERENCE_CROP));
+  return histogram(pixels, Math.floor((pixels.width - w) / 2), Math.floor((pixels.height - h) / 2), w, h);
+};
+
+const frameHistograms = (pixels: Pixels): Float32Array[] => {
+  const result: Float32Array[] = [];
+  for (const size of WINDOW_SIZES) {
+    const w = Math.max(1, Math.round(pixels.width * size));
+    const h = Math.max(1, Math.round(pixels.height * size));
+    for (let fy = 0; fy + size <= 1 + 1e-6; fy += WINDOW_STEP) {
+      for (let fx = 0; fx + size <= 1 + 1e-6; fx += WINDOW_STEP) {
+        const x = Math.min(pixels.width - w, Math.round(pixels.width * fx));
+        const y = Math.min(pixels.height - h, Math.round(pixels.height * fy));
+        result.push(histogram(pixels, x, y, w, h));
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Scores a frame against the reference images of the characters in the shot.
+ * Returns undefined when none of them has a reference to compare with.
+ */
+export const scoreConsistency = async (
+  frame: string,
+  cast: CastMember[],
+  shot: ShotConfig
+): Promise<ConsistencyScore | undefined> => {
+  const shotCast = resolveShotCast(cast, shot).filter(member => member.referenceImages.length > 0);
+  if (shotCast.length === 0) return undefined;
+  const framePixels = await getPixels(frame);
+  if (!framePixels) return undefined;
+  const windows = frameHistograms(framePixels);
+
+  const characters: ConsistencyScore['characters'] = [];
+  for (const member of shotCast) {
+    let best = 0;
+    for (const reference of member.referenceImages) {
+      const pixels = await getPixels(reference.dataUrl);
+      if (!pixels) continue;
+      const target = referenceHistogram(pixels);
+      for (const window of windows) best = Math.max(best, intersect(target, window));
+    }
+    characters.push({ name: member.name, score: best });
+  }
+  return { score: Math.min(...characters.map(c => c.score)), characters };
+};
+
+export const isDrifting = (consistency: ConsistencyScore | undefined): boolean =>
+  !!consistency && consistency.score < CONSISTENCY_THRESHOLD;
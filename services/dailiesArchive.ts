@@ -0,0 +1,243 @@
+import { GeneratedShot, GenerationStatus, Scene, Sequence, ShotReview, Take } from "../types";
+import { bytesToDataUrl, dataUrlToBytes, extensionForMimeType, mimeTypeForFileName } from "../utils/dataUrl";
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { generateId } from "../utils/ids";
+import { assignShotIds, parseShotList, serializeShotList, toShotConfig } from "./shotListSchema";
+import { getShotNumbers, toShotFileLabel } from "./sceneService";
+
+/**
+ * Dailies archive layout:
+ *
+ *   manifest.json     project name, export time, scenes, sequences and one
+ *                     entry per shot
+ *   shot-list.json    the shot configs in the current shot-list format
+ *   frames/shot-<number>-take-NN.png   e.g. shot-12A-take-01.png
+ *   frames/shot-<number>-take-NN-end.png   last frame of a camera move
+ *
+ * Importing reads the manifest back; frames are matched by the `file` field.
+ * Reviews refer to takes by id, so take ids are kept.
+ * Version 1 archives held one frame per shot, with its details on the shot.
+ */
+const MANIFEST_FORMAT = 'cinegen-dailies';
+const MANIFEST_VERSION = 2;
+
+const MANIFEST_FILE = 'manifest.json';
+const SHOT_LIST_FILE = 'shot-list.json';
+const FRAMES_DIR = 'frames';
+
+interface ManifestTake {
+  id?: string; // Missing from archives written before reviews existed
+  file: string; // Path of the frame inside the archive
+  end_file?: string; // Last frame of a camera move
+  prompt: string;
+  seed?: number;
+  model?: string;
+  generated_at: string; // ISO timestamp
+  duration_ms?: number;
+  circled?: boolean;
+  edit_of?: number; // Index of the take this one was edited from
+  edit_instruction?: string;
+}
+
+interface ManifestShot {
+  number: number; // Position in the shot list
+  shot_number?: string; // Production shot number, e.g. "12A"
+  id?: string;
+  shot_type: string;
+  aspect_ratio: string;
+  prompt: string;
+  characters?: string[];
+  scene?: string;
+  style?: string;
+  duration?: number;
+  status: GenerationStatus;
+  error?: string;
+  review?: ShotReview;
+  takes?: ManifestTake[]; // Version 2
+  // Version 1
+  file?: string | null;
+  model?: string;
+  generated_at?: string;
+  duration_ms?: number;
+}
+
+interface DailiesManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  project: string;
+  exported_at: string;
+  scenes?: Scene[];
+  sequences?: Sequence[];
+  shots: ManifestShot[];
+}
+
+export interface ImportedDailies {
+  projectName: string;
+  shotListJson: string;
+  shots: GeneratedShot[];
+  scenes?: Scene[]; // Missing from archives written before scenes existed
+  sequences?: Sequence[];
+}
+
+const frameFileName = (shotNumber: string, takeIndex: number, mimeType: string, suffix = '') =>
+  `${FRAMES_DIR}/shot-${toShotFileLabel(shotNumber)}-take-${String(takeIndex + 1).padStart(2, '0')}${suffix}.${extensionForMimeType(mimeType)}`;
+
+export const exportDailiesZip = (
+  shots: GeneratedShot[],
+  projectName: string,
+  scenes: Scene[] = [],
+  sequences: Sequence[] = []
+): Blob => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const shotNumbers = getShotNumbers(shots, scenes);
+
+  const manifestShots: ManifestShot[] = shots.map((shot, index) => {
+    const takes: ManifestTake[] = shot.takes.map((take, takeIndex) => {
+      const { mimeType, bytes } = dataUrlToBytes(take.imageUrl);
+      const file = frameFileName(shotNumbers[index], takeIndex, mimeType);
+      entries.push({ name: file, data: bytes });
+      let endFile: string | undefined;
+      if (take.endImageUrl) {
+        const end = dataUrlToBytes(take.endImageUrl);
+        endFile = frameFileName(shotNumbers[index], takeIndex, end.mimeType, '-end');
+        entries.push({ name: endFile, data: end.bytes });
+      }
+      return {
+        id: take.id,
+        file,
+        ...(endFile ? { end_file: endFile } : {}),
+        prompt: take.prompt,
+        ...(take.seed !== undefined ? { seed: take.seed } : {}),
+        ...(take.model ? { model: take.model } : {}),
+        generated_at: new Date(take.generatedAt).toISOString(),
+        ...(take.durationMs !== undefined ? { duration_ms: take.durationMs } : {}),
+        ...(take.id === shot.circledTakeId ? { circled: true } : {}),
+        ...(take.edit ? {
+          edit_of: shot.takes.findIndex(t => t.id === take.edit!.sourceTakeId),
+          edit_instruction: take.edit.instruction,
+        } : {}),
+      };
+    });
+    return {
+      number: index + 1,
+      shot_number: shotNumbers[index],
+      ...toShotConfig(shot),
+      status: shot.status,
+      ...(shot.error ? { error: shot.error } : {}),
+      ...(shot.review ? { review: shot.review } : {}),
+      takes,
+    };
+  });
+
+  const manifest: DailiesManifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    project: projectName,
+    exported_at: new Date().toISOString(),
+    scenes,
+    sequences,
+    shots: manifestShots,
+  };
+
+  entries.unshift(
+    { name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: SHOT_LIST_FILE, data: encoder.encode(serializeShotList(shots.map(toShotConfig))) }
+  );
+
+  return createZip(entries);
+};
+
+/**
+ * Restores the Dailies from an archive written by `exportDailiesZip`.
+ */
+export const importDailiesZip = async (file: Blob): Promise<ImportedDailies> => {
+  const entries = await readZip(await file.arrayBuffer());
+  const byName = new Map(entries.map(entry => [entry.name, entry.data]));
+  const decoder = new TextDecoder();
+
+  const manifestBytes = byName.get(MANIFEST_FILE);
+  if (!manifestBytes) {
+    throw new Error(`Archive has no ${MANIFEST_FILE}.`);
+  }
+  let manifest: DailiesManifest;
+  try {
+    manifest = JSON.parse(decoder.decode(manifestBytes));
+  } catch {
+    throw new Error(`${MANIFEST_FILE} is not valid JSON.`);
+  }
+  if (manifest.format !== MANIFEST_FORMAT || !Array.isArray(manifest.shots)) {
+    throw new Error("Archive is not a CineGen dailies export.");
+  }
+  if (manifest.version > MANIFEST_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than this app supports.`);
+  }
+
+  // Shot configs go through the schema so imported values are normalized
+  const shotListBytes = byName.get(SHOT_LIST_FILE);
+  if (!shotListBytes) {
+    throw new Error(`Archive has no ${SHOT_LIST_FILE}.`);
+  }
+  const shotListJson = decoder.decode(shotListBytes);
+  const parsed = parseShotList(shotListJson);
+  if (!parsed.ok || parsed.shots.length !== manifest.shots.length) {
+    const issue = parsed.issues[0];
+    throw new Error(issue ? `${SHOT_LIST_FILE} line ${issue.line}: ${issue.message}` : "Shot list does not match the manifest.");
+  }
+
+  const exportedAt = Date.parse(manifest.exported_at) || Date.now();
+  // Archives written before shots had ids get new ones
+  const shotConfigs = assignShotIds(parsed.shots);
+
+  const shots: GeneratedShot[] = manifest.shots.map((entry, index) => {
+    // Version 1 entries describe a single frame on the shot itself
+    const manifestTakes: ManifestTake[] = entry.takes ?? (
+      entry.file && entry.status === GenerationStatus.SUCCESS
+        ? [{ file: entry.file, prompt: entry.prompt, model: entry.model, generated_at: entry.generated_at ?? manifest.exported_at, duration_ms: entry.duration_ms }]
+        : []
+    );
+
+    let circledTakeId: string | undefined;
+    const takes: Take[] = [];
+    const takeIds = manifestTakes.map(manifestTake => manifestTake.id ?? generateId());
+    manifestTakes.forEach((manifestTake, takeIndex) => {
+      const frame = byName.get(manifestTake.file);
+      if (!frame) return;
+      const endFrame = manifestTake.end_file ? byName.get(manifestTake.end_file) : undefined;
+      const sourceTakeId = manifestTake.edit_of !== undefined ? takeIds[manifestTake.edit_of] : undefined;
+      const take: Take = {
+        id: takeIds[takeIndex],
+        imageUrl: bytesToDataUrl(frame, mimeTypeForFileName(manifestTake.file)),
+        endImageUrl: endFrame && bytesToDataUrl(endFrame, mimeTypeForFileName(manifestTake.end_file!)),
+        prompt: manifestTake.prompt ?? entry.prompt,
+        seed: manifestTake.seed,
+        model: manifestTake.model,
+        generatedAt: Date.parse(manifestTake.generated_at) || exportedAt,
+        durationMs: manifestTake.duration_ms,
+        edit: sourceTakeId ? { sourceTakeId, instruction: manifestTake.edit_instruction ?? '' } : undefined,
+      };
+      if (manifestTake.circled) circledTakeId = take.id;
+      takes.push(take);
+    });
+
+    const missingFrames = takes.length < manifestTakes.length;
+    const succeeded = takes.length > 0 && entry.status !== GenerationStatus.ERROR;
+    return {
+      ...shotConfigs[index],
+      id: shotConfigs[index].id!,
+      takes,
+      circledTakeId,
+      review: entry.review,
+      status: succeeded ? GenerationStatus.SUCCESS : GenerationStatus.ERROR,
+      error: succeeded ? undefined : entry.error ?? (missingFrames ? "Frame missing from archive." : "Not generated."),
+    };
+  });
+
+  return {
+    projectName: manifest.project,
+    shotListJson: serializeShotList(shotConfigs),
+    shots,
+    ...(Array.isArray(manifest.scenes) ? { scenes: manifest.scenes } : {}),
+    ...(Array.isArray(manifest.sequences) ? { sequences: manifest.sequences } : {}),
+  };
+};
@@ -0,0 +1,44 @@
+import { GenerationErrorCode, RequestDiagnostic } from "../types";
+
+/**
+ * In-memory log of provider requests for the diagnostics panel. It is not
+ * saved with the project.
+ */
+
+export interface DiagnosticEntry extends RequestDiagnostic {
+  id: string;
+  shotId: string;
+  operation: 'generate' | 'edit';
+  provider: string; // Provider label
+  model: string;
+  recordedAt: number;
+}
+
+export interface DiagnosticsSummary {
+  requests: number;
+  failures: number;
+  averageLatencyMs: number | null; // Null when nothing has been logged
+  failuresByCode: Partial<Record<GenerationErrorCode, number>>;
+}
+
+// Oldest entries are dropped past this, since prompts can be long
+export const MAX_DIAGNOSTIC_ENTRIES = 200;
+
+/**
+ * Adds an entry to a newest-first log.
+ */
+export const appendDiagnostic = (log: DiagnosticEntry[], entry: DiagnosticEntry): DiagnosticEntry[] =>
+  [entry, ...log].slice(0, MAX_DIAGNOSTIC_ENTRIES);
+
+export const summarizeDiagnostics = (log: DiagnosticEntry[]): DiagnosticsSummary => {
+  const failuresByCode: DiagnosticsSummary['failuresByCode'] = {};
+  for (const entry of log) {
+    if (entry.errorCode) failuresByCode[entry.errorCode] = (failuresByCode[entry.errorCode] ?? 0) + 1;
+  }
+  return {
+    requests: log.length,
+    failures: log.filter(entry => entry.errorCode).length,
+    averageLatencyMs: log.length > 0 ? log.reduce((sum, entry) => sum + entry.latencyMs, 0) / log.length : null,
+    failuresByCode,
+  };
+};
@@ -1,122 +1,291 @@
-import { GoogleGenAI } from "@google/genai";
-import { ShotConfig } from "../types";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Part, Type } from "@google/genai";
+import { FrameEditRequest, FrameRequest, GenerationErrorCode, ImageProvider, ShotConfig, ShotType } from "../types";
+import { resolveShotCast } from "./castService";
+import { ScreenplayScene } from "./screenplayParser";
+import { findClosestAspectRatio } from "../utils/aspectRatio";
+import { buildFramePrompt, describeStyle } from "./promptBuilder";
+import { getMovePosition } from "./cameraService";
+import { GenerationError, SafetyBlockError, TextOnlyResponseError, toGenerationError } from "./generationErrors";
+import { formatBytes } from "../utils/download";
 
-// Initialize the client with the environment variable
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Output ratios the image model accepts. Others are requested at the closest
+// match and conformed to the exact ratio once the frame arrives.
+const GEMINI_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9', '21:9'];
+
+let client: GoogleGenAI | null = null;
+
+// Create the client on first use so that other providers keep working
+// when no API key is configured.
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+// Finish reasons that mean the output was withheld by a safety filter
+const SAFETY_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+// Longest model text kept in a diagnostics summary
+const SUMMARY_TEXT_LENGTH = 300;
+
+const toInlinePart = (dataUrl: string): Part => {
+  const [, mimeType = 'image/png', data = ''] = dataUrl.match(/^data:([^;,]+);base64,(.*)$/s) ?? [];
+  return { inlineData: { mimeType, data } };
+};
+
+const getResponseText = (response: GenerateContentResponse): string | undefined =>
+  response.candidates?.[0]?.content?.parts
+    ?.map(part => part.text ?? '')
+    .join('\n')
+    .trim() || undefined;
 
 /**
- * Resizes an image to ensure it fits within API payload limits.
- * Compresses to JPEG with 0.8 quality and max dimension of 1024px.
+ * Returns the first image in a response as a data URL. A response without
+ * one is turned into the matching error: a safety block (with the model's
+ * explanation when it gave one), a text-only reply, or an empty response.
  */
-const resizeImage = (base64Str: string, maxWidth = 1024, maxHeight = 1024): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.src = base64Str;
-    img.crossOrigin = "anonymous"; 
-    
-    img.onload = () => {
-      let width = img.width;
-      let height = img.height;
-
-      // Calculate new dimensions while maintaining aspect ratio
-      if (width > height) {
-        if (width > maxWidth) {
-          height = Math.round((height * maxWidth) / width);
-          width = maxWidth;
-        }
-      } else {
-        if (height > maxHeight) {
-          width = Math.round((width * maxHeight) / height);
-          height = maxHeight;
-        }
-      }
-
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      
-      if (ctx) {
-        ctx.drawImage(img, 0, 0, width, height);
-        // Convert to JPEG for better compression than PNG (significantly reduces payload size)
-        resolve(canvas.toDataURL('image/jpeg', 0.8));
-      } else {
-        // Fallback if canvas context fails
-        resolve(base64Str);
-      }
-    };
+const extractImage = (response: GenerateContentResponse): string => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    throw new SafetyBlockError(`The prompt was blocked (${feedback.blockReason}).`, feedback.blockReasonMessage);
+  }
 
-    img.onerror = () => {
-       // Fallback if image load fails
-       console.warn("Failed to load image for resizing, using original.");
-       resolve(base64Str);
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts ?? []) {
+    if (part.inlineData?.data) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
     }
-  });
+  }
+
+  const text = getResponseText(response);
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason)) {
+    throw new SafetyBlockError(`The frame was blocked by safety filters (${candidate.finishReason}).`, text ?? candidate.finishMessage);
+  }
+  if (text) throw new TextOnlyResponseError(text);
+  throw new GenerationError('no_image', "The response contained no image.", { retryable: true });
+};
+
+const summarizeResponse = (response: GenerateContentResponse): string => {
+  const candidate = response.candidates?.[0];
+  const images = (candidate?.content?.parts ?? []).filter(part => part.inlineData?.data);
+  const text = getResponseText(response);
+  return [
+    response.promptFeedback?.blockReason && `prompt blocked: ${response.promptFeedback.blockReason}`,
+    `finish: ${candidate?.finishReason ?? 'none'}`,
+    `${images.length} image${images.length === 1 ? '' : 's'}`,
+    ...images.map(part => `${part.inlineData!.mimeType} ${formatBytes(part.inlineData!.data!.length * 0.75)}`),
+    text && `text: "${text.length > SUMMARY_TEXT_LENGTH ? `${text.slice(0, SUMMARY_TEXT_LENGTH)}…` : text}"`,
+  ].filter(Boolean).join(' · ');
 };
 
 /**
- * Generates a single storyboard image based on a reference character and a prompt.
+ * Sends one image request, reports it to `onDiagnostic` and turns failures
+ * into typed errors.
  */
-export const generateStoryboardFrame = async (
-  referenceImageBase64: string,
-  shot: ShotConfig
+const requestImage = async (
+  prompt: string,
+  parts: Part[],
+  aspectRatio: string,
+  { seed, signal, onDiagnostic }: { seed?: number; signal?: AbortSignal; onDiagnostic?: FrameRequest['onDiagnostic'] }
 ): Promise<string> => {
+  const contents = { parts: [{ text: prompt }, ...parts] };
+  const payloadBytes = JSON.stringify(contents).length;
+  const startedAt = performance.now();
+  const report = (response: string, errorCode?: GenerationErrorCode) =>
+    onDiagnostic?.({ prompt, payloadBytes, latencyMs: Math.round(performance.now() - startedAt), response, errorCode });
+
+  let response: GenerateContentResponse;
+  try {
+    response = await getClient().models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents,
+      config: {
+        seed,
+        imageConfig: { aspectRatio: findClosestAspectRatio(aspectRatio, GEMINI_ASPECT_RATIOS) },
+        abortSignal: signal,
+      },
+    });
+  } catch (error: any) {
+    // Let cancellation reach the queue untouched
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    console.error("Gemini API Error:", error);
+    const typed = toGenerationError(error);
+    report(error?.message ?? String(error), typed.code);
+    throw typed;
+  }
+
+  const summary = summarizeResponse(response);
   try {
-    const modelId = 'gemini-2.5-flash-image';
-
-    // Optimize image before sending to avoid "Rpc failed due to xhr error" (payload too large)
-    const optimizedImage = await resizeImage(referenceImageBase64);
-    
-    // Clean the base64 string if it has the data prefix
-    const cleanBase64 = optimizedImage.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-
-    // Construct a prompt that enforces character consistency
-    const fullPrompt = `
-    Generate a cinematic storyboard frame.
-    Shot Type: ${shot.shot_type}.
-    Aspect Ratio: ${shot.aspect_ratio}.
-    Scene Description: ${shot.prompt}.
-    
-    SYSTEM INSTRUCTION: The attached image is the CHARACTER REFERENCE. 
-    You MUST match the character's visual appearance (face, hair, clothing style) from the provided image exactly in the new generated scene.
-    High quality, photorealistic, cinematic lighting.
+    const image = extractImage(response);
+    report(summary);
+    return image;
+  } catch (error) {
+    report(summary, (error as GenerationError).code);
+    throw error;
+  }
+};
+
+/**
+ * Generates a single storyboard image based on the shot's cast references and a prompt.
+ */
+export const generateStoryboardFrame = async ({
+  cast,
+  shot,
+  size,
+  style,
+  seed,
+  startFrame,
+  notes,
+  signal,
+  onDiagnostic,
+}: FrameRequest): Promise<string> => {
+  // Only the characters in this shot are sent, each labelled by name and
+  // their images by angle. The cast arrives already encoded for sending.
+  const shotCast = resolveShotCast(cast, shot).filter(member => member.referenceImages.length > 0);
+
+  const referenceParts: Part[] = [];
+  for (const member of shotCast) {
+    const count = member.referenceImages.length;
+    const angles = member.referenceImages.map(image => image.angle).join(', ');
+    referenceParts.push({
+      text: `CHARACTER REFERENCE: "${member.name}" (${count} image${count > 1 ? 's' : ''} follow: ${angles}).`,
+    });
+    for (const image of member.referenceImages) {
+      referenceParts.push(toInlinePart(image.dataUrl));
+    }
+  }
+
+  // The end of a camera move is drawn from its start frame
+  if (startFrame) {
+    referenceParts.push({ text: `START FRAME: the first frame of this camera move.` }, toInlinePart(startFrame));
+  }
+
+  // Construct a prompt that enforces character consistency and the shot's style
+  const fullPrompt = buildFramePrompt({
+    shot,
+    characterNames: shotCast.map(m => m.name),
+    size,
+    style,
+    movePosition: getMovePosition(shot, startFrame),
+    notes,
+  });
+
+  return requestImage(fullPrompt, referenceParts, shot.aspect_ratio, { seed, signal, onDiagnostic });
+};
+
+/**
+ * Repaints the masked region of an existing frame following a text correction.
+ */
+export const editStoryboardFrame = async ({
+  image,
+  mask,
+  instruction,
+  shot,
+  size,
+  style,
+  signal,
+  onDiagnostic,
+}: FrameEditRequest): Promise<string> => {
+  const prompt = `
+    Edit the first image, a storyboard frame (${shot.shot_type}, ${shot.aspect_ratio}, ${size.width}x${size.height}).
+    The second image is a mask. Change ONLY the area that is white in the mask and keep everything else exactly as it is:
+    the same framing, characters, lighting and style.
+    Correction: ${instruction}
+    ${style ? describeStyle(style).join(' ') : ''}
     `;
 
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: {
-        parts: [
-          {
-            text: fullPrompt,
-          },
-          {
-            inlineData: {
-              mimeType: 'image/jpeg', // We converted to JPEG in resizeImage
-              data: cleanBase64,
+  return requestImage(prompt, [toInlinePart(image), toInlinePart(mask)], shot.aspect_ratio, { signal, onDiagnostic });
+};
+
+// One shot as the breakdown model returns it; the schema isn't always honoured
+interface BreakdownEntry {
+  shot_type?: unknown;
+  prompt?: unknown;
+  characters?: unknown;
+}
+
+/**
+ * Asks a text model to break one screenplay scene into storyboard shots.
+ * The response is constrained to JSON so it can go straight into the shot list.
+ */
+export const breakdownSceneWithGemini = async (
+  scene: ScreenplayScene,
+  characters: string[]
+): Promise<Pick<ShotConfig, 'shot_type' | 'prompt' | 'characters'>[]> => {
+  const script = [
+    scene.heading,
+    ...scene.elements.map(e => (e.type === 'character' ? `\n${e.text.toUpperCase()}` : e.text)),
+  ].join('\n');
+
+  const prompt = `
+    You are a storyboard artist. Break the following screenplay scene into a list of camera shots.
+    Cover the key action beats and dialogue exchanges; avoid redundant shots.
+    Each prompt must be a self-contained visual description of the frame (no camera jargon beyond the shot type).
+    Only use these character names: ${characters.join(', ') || 'none'}.
+
+    SCENE:
+    ${script}
+    `;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              shot_type: { type: Type.STRING, enum: Object.values(ShotType) },
+              prompt: { type: Type.STRING },
+              characters: { type: Type.ARRAY, items: { type: Type.STRING } },
             },
+            required: ['shot_type', 'prompt', 'characters'],
           },
-        ],
+        },
       },
     });
 
-    // Parse the response to find the generated image
-    // The API might return text (if it refused) or inlineData (the image)
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      const parts = candidates[0].content.parts;
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-            // Return valid data URI
-            return `data:image/png;base64,${part.inlineData.data}`;
-        }
+    const entries: unknown = JSON.parse(response.text ?? '[]');
+    if (!Array.isArray(entries)) {
+      throw new Error("Shot breakdown response was not a list.");
+    }
+    const knownNames = new Set(characters.map(name => name.toLowerCase()));
+    const shotTypes: string[] = Object.values(ShotType);
+    const shots = (entries as (BreakdownEntry | null)[]).flatMap(entry => {
+      const { shot_type, prompt, characters: names } = entry ?? {};
+      const text = typeof prompt === 'string' ? prompt.trim() : '';
+      if (!text || typeof shot_type !== 'string' || !shotTypes.includes(shot_type)) return [];
+      return [{
+        shot_type: shot_type as ShotType,
+        prompt: text,
+        characters: (Array.isArray(names) ? names : [])
+          .filter((name): name is string => typeof name === 'string' && knownNames.has(name.toLowerCase())),
+      }];
+    });
+    // Entries without a prompt or a known shot type would only fail validation later
+    if (shots.length < entries.length) {
+      console.warn(`Shot breakdown for "${scene.heading}" dropped ${entries.length - shots.length} of ${entries.length} shots with no prompt or shot type.`);
+      if (shots.length === 0) {
+        throw new Error(`Shot breakdown for "${scene.heading}" returned no shots with a prompt and shot type.`);
       }
     }
-
-    throw new Error("No image data found in response. The model may have blocked the request or returned only text.");
-
+    return shots;
   } catch (error: any) {
     console.error("Gemini API Error:", error);
-    throw new Error(error.message || "Failed to generate image");
+    throw new Error(error.message || "Failed to break down scene");
   }
 };
 
@@ -125,4 +294,13 @@ export const generateStoryboardFrame = async (
  */
 export const isApiKeyAvailable = (): boolean => {
   return !!process.env.API_KEY;
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash Image',
+  model: GEMINI_IMAGE_MODEL,
+  isAvailable: isApiKeyAvailable,
+  generateFrame: generateStoryboardFrame,
+  editFrame: editStoryboardFrame,
+};
@@ -0,0 +1,148 @@
+import { GenerationErrorCode, ShotFailure } from "../types";
+import { isRetryableError } from "./generationQueue";
+
+/**
+ * Typed render failures. Providers throw these so the queue knows what is
+ * worth retrying and the Dailies can say what went wrong; `retryable` is read
+ * by `isRetryableError`.
+ */
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly retryable: boolean;
+  readonly detail?: string;
+
+  constructor(
+    code: GenerationErrorCode,
+    message: string,
+    options: { retryable: boolean; detail?: string; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.code = code;
+    this.retryable = options.retryable;
+    this.detail = options.detail;
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  constructor(message: string, detail?: string) {
+    super('safety_block', message, { retryable: false, detail });
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class RateLimitError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('rate_limit', "The provider is rate limiting requests.", { retryable: true, cause });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('quota_exceeded', "The API quota is used up. Check the plan and billing for this key.", { retryable: false, cause });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class PayloadTooLargeError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('payload_too_large', "The request was too large. Lower the reference size or send fewer references.", { retryable: false, cause });
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('network', "The provider could not be reached.", { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TextOnlyResponseError extends GenerationError {
+  constructor(text: string) {
+    super('text_only_response', "The model replied with text instead of a frame.", { retryable: false, detail: text });
+    this.name = 'TextOnlyResponseError';
+  }
+}
+
+export class AuthError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('auth', "The API key was rejected.", { retryable: false, cause });
+    this.name = 'AuthError';
+  }
+}
+
+export class ServerError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('server', "The provider had an internal error.", { retryable: true, cause });
+    this.name = 'ServerError';
+  }
+}
+
+export const ERROR_LABELS: Record<GenerationErrorCode, string> = {
+  safety_block: 'Safety block',
+  rate_limit: 'Rate limited',
+  quota_exceeded: 'Quota exceeded',
+  payload_too_large: 'Payload too large',
+  network: 'Network error',
+  text_only_response: 'Text-only response',
+  no_image: 'No image',
+  auth: 'Auth error',
+  server: 'Server error',
+  unknown: 'Error',
+};
+
+// Fields SDKs put on their errors, which may be plain objects
+type ErrorFields = { status?: unknown; code?: unknown; message?: unknown };
+
+const getFields = (error: unknown): ErrorFields =>
+  typeof error === 'object' && error !== null ? error as ErrorFields : {};
+
+const getMessage = (error: unknown): string => {
+  const { message } = getFields(error);
+  return typeof message === 'string' ? message : String(error);
+};
+
+const getStatus = (error: unknown): number | undefined => {
+  const { status, code, message } = getFields(error);
+  if (typeof status === 'number') return status;
+  if (typeof code === 'number') return code;
+  // The Gemini SDK sometimes only has the code inside the JSON message
+  const match = typeof message === 'string' && message.match(/"code"\s*:\s*(\d{3})/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Classifies a raw provider or SDK error. Errors that are already typed pass
+ * through unchanged.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const status = getStatus(error);
+  const message = getMessage(error);
+
+  // Gemini answers per-minute and daily limits alike with 429; the quota id tells them apart
+  if (status === 429 || /resource.?exhausted|rate.?limit/i.test(message)) {
+    return /per.?day|daily/i.test(message) ? new QuotaExceededError(error) : new RateLimitError(error);
+  }
+  if (status === 413 || /payload|too large|request entity|xhr error/i.test(message)) {
+    return new PayloadTooLargeError(error);
+  }
+  if (status === 401 || status === 403 || /api.?key|permission.?denied|unauthori[sz]ed/i.test(message)) {
+    return new AuthError(error);
+  }
+  if ((status !== undefined && status >= 500) || /unavailable|overloaded|internal error/i.test(message)) {
+    return new ServerError(error);
+  }
+  if (status === 408 || /network|failed to fetch|timeout|deadline/i.test(message)) {
+    return new NetworkError(error);
+  }
+  return new GenerationError('unknown', message || "Generation failed", { retryable: isRetryableError(error), cause: error });
+};
+
+export const toShotFailure = (error: GenerationError): ShotFailure => ({
+  code: error.code,
+  retryable: error.retryable,
+  ...(error.detail ? { detail: error.detail } : {}),
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGenerationQueue, DEFAULT_QUEUE_SETTINGS, isRetryableError, QueueHandlers, QueueSettings } from './generationQueue';
+
+const SETTINGS: QueueSettings = { ...DEFAULT_QUEUE_SETTINGS, concurrency: 1, burst: 10, requestsPerMinute: 600, baseDelayMs: 1000 };
+
+// Records handler calls as "event id [detail]"
+const createRecorder = () => {
+  const events: string[] = [];
+  const handlers: QueueHandlers<string> = {
+    onStart: (id, attempt) => events.push(`start ${id} ${attempt}`),
+    onRetry: (id, attempt) => events.push(`retry ${id} ${attempt}`),
+    onSuccess: (id, result) => events.push(`success ${id} ${result}`),
+    onError: (id) => events.push(`error ${id}`),
+    onCancel: (id) => events.push(`cancel ${id}`),
+  };
+  return { events, handlers };
+};
+
+// Resolves after `ms` whether or not the job is aborted, like a provider that ignores the signal
+const settleAfter = (result: string, ms: number) => () =>
+  new Promise<string>(resolve => setTimeout(() => resolve(result), ms));
+
+describe('createGenerationQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries retryable errors with backoff, then succeeds', async () => {
+    const { events, handlers } = createRecorder();
+    const queue = createGenerationQueue<string>(SETTINGS, handlers);
+    let calls = 0;
+    queue.enqueue('a', async () => {
+      calls++;
+      if (calls === 1) throw Object.assign(new Error('Service unavailable'), { status: 503 });
+      return 'frame';
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(events).toEqual(['start a 1', 'retry a 2', 'start a 2', 'success a frame']);
+    expect(queue.getProgress()).toMatchObject({ running: 0, waiting: 0 });
+  });
+
+  it('fails without retrying errors that are not transient', async () => {
+    const { events, handlers } = createRecorder();
+    const queue = createGenerationQueue<string>(SETTINGS, handlers);
+    queue.enqueue('a', async () => {
+      throw new Error('Invalid prompt');
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(events).toEqual(['start a 1', 'error a']);
+  });
+
+  it('cancels waiting and running jobs', async () => {
+    const { events, handlers } = createRecorder();
+    const queue = createGenerationQueue<string>(SETTINGS, handlers);
+    queue.enqueue('a', (signal) => new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    queue.enqueue('b', settleAfter('frame', 100));
+
+    queue.cancelAll();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(events).toEqual(['start a 1', 'cancel b', 'cancel a']);
+  });
+
+  it('ignores the late result of a job replaced under the same id', async () => {
+    const { events, handlers } = createRecorder();
+    const queue = createGenerationQueue<string>(SETTINGS, handlers);
+    queue.enqueue('a', settleAfter('old', 100));
+    await vi.advanceTimersByTimeAsync(10);
+
+    queue.cancelAll();
+    queue.enqueue('a', settleAfter('new', 300));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(events).toEqual(['start a 1', 'start a 1', 'success a new']);
+  });
+
+  it('keeps the replacement running when the replaced job settles after it started', async () => {
+    const { events, handlers } = createRecorder();
+    const queue = createGenerationQueue<string>({ ...SETTINGS, concurrency: 2 }, handlers);
+    queue.enqueue('a', settleAfter('old', 500));
+    await vi.advanceTimersByTimeAsync(10);
+
+    queue.enqueue('a', settleAfter('new', 1000));
+    await vi.advanceTimersByTimeAsync(600);
+    expect(queue.getProgress()).toMatchObject({ running: 1 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events).toEqual(['start a 1', 'start a 1', 'success a new']);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('reads status codes, messages and cause chains', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError(new Error('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new Error('Wrapped', { cause: { code: 503 } }))).toBe(true);
+    expect(isRetryableError({ status: 400, retryable: false })).toBe(false);
+    expect(isRetryableError('timeout')).toBe(false);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Job queue for frame generation: bounded concurrency, a token-bucket rate
+ * limit, exponential backoff for retryable errors, and pause/resume/cancel
+ * through AbortSignal.
+ */
+
+export interface QueueSettings {
+  concurrency: number; // Jobs running at once
+  requestsPerMinute: number; // Token-bucket refill rate
+  burst: number; // Token-bucket capacity
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // First backoff delay; doubles per attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 2,
+  requestsPerMinute: 20,
+  burst: 2,
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+export interface QueueProgress {
+  total: number; // Jobs added since the queue was last idle
+  completed: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  waiting: number; // Queued or backing off before a retry
+  paused: boolean;
+  etaMs: number | null; // Null until a job has finished
+}
+
+export interface QueueHandlers<T> {
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, attempt: number, delayMs: number, error: unknown) => void;
+  onSuccess?: (id: string, result: T, durationMs: number) => void;
+  onError?: (id: string, error: unknown) => void;
+  onCancel?: (id: string) => void;
+  onProgress?: (progress: QueueProgress) => void;
+}
+
+export type QueueJobRunner<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface GenerationQueue<T> {
+  enqueue: (id: string, run: QueueJobRunner<T>) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  pause: () => void;
+  resume: () => void;
+  updateSettings: (settings: QueueSettings) => void;
+  getProgress: () => QueueProgress;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE = /rate.?limit|quota|resource.?exhausted|unavailable|overloaded|timeout|deadline|network|failed to fetch|xhr error|try again/i;
+
+/**
+ * Best-effort check for transient failures worth retrying. Looks at HTTP-style
+ * status codes and well-known error text, following `cause` chains.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  let current = error;
+  for (let depth = 0; typeof current === 'object' && current !== null && depth < 5; depth++) {
+    const { retryable, status, code, message, cause } = current as {
+      retryable?: unknown;
+      status?: unknown;
+      code?: unknown;
+      message?: unknown;
+      cause?: unknown;
+    };
+    if (typeof retryable === 'boolean') return retryable;
+    const httpStatus = status ?? code;
+    if (typeof httpStatus === 'number' && RETRYABLE_STATUS.has(httpStatus)) return true;
+    if (typeof message === 'string' && RETRYABLE_MESSAGE.test(message)) return true;
+    current = cause;
+  }
+  return false;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+interface Job<T> {
+  id: string;
+  run: QueueJobRunner<T>;
+  attempt: number;
+  controller: AbortController;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  isReplaced?: boolean; // Enqueued again under the same id while running
+}
+
+export const createGenerationQueue = <T>(
+  initialSettings: QueueSettings,
+  handlers: QueueHandlers<T>
+): GenerationQueue<T> => {
+  let settings = initialSettings;
+  let paused = false;
+
+  const waiting: Job<T>[] = [];
+  const running = new Map<string, Job<T>>();
+  const backingOff = new Map<string, Job<T>>();
+
+  let total = 0;
+  let completed = 0;
+  let failed = 0;
+  let cancelled = 0;
+  let totalDurationMs = 0;
+
+  // Token bucket
+  let tokens = settings.burst;
+  let lastRefill = Date.now();
+  let tokenTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const refillTokens = () => {
+    const now = Date.now();
+    const perMs = settings.requestsPerMinute / 60000;
+    tokens = Math.min(settings.burst, tokens + (now - lastRefill) * perMs);
+    lastRefill = now;
+  };
+
+  const getProgress = (): QueueProgress => {
+    const active = running.size + waiting.length + backingOff.size;
+    let etaMs: number | null = null;
+    if (active === 0) {
+      etaMs = 0;
+    } else if (completed > 0) {
+      // Whichever is slower: the providers' pace or the rate limit
+      const averageMs = totalDurationMs / completed;
+      const rateLimitedMs = (60000 / settings.requestsPerMinute) * Math.max(0, active - tokens);
+      etaMs = Math.max((averageMs * active) / settings.concurrency, rateLimitedMs);
+    }
+    return {
+      total,
+      completed,
+      failed,
+      cancelled,
+      running: running.size,
+      waiting: waiting.length + backingOff.size,
+      paused,
+      etaMs,
+    };
+  };
+
+  const emitProgress = () => {
+    handlers.onProgress?.(getProgress());
+    // Start counting afresh for the next batch once everything has settled
+    if (running.size + waiting.length + backingOff.size === 0) {
+      total = completed = failed = cancelled = 0;
+      totalDurationMs = 0;
+    }
+  };
+
+  const execute = async (job: Job<T>) => {
+    // A replaced job still in flight gives up its slot; it settles as cancelled
+    if (running.has(job.id)) cancelled += 1;
+    running.set(job.id, job);
+    job.attempt += 1;
+    handlers.onStart?.(job.id, job.attempt);
+    emitProgress();
+
+    // Only the job holding the id's slot may settle it; results from a job
+    // that was replaced would clobber the shot being regenerated
+    const release = () => {
+      if (running.get(job.id) !== job) return false;
+      running.delete(job.id);
+      if (job.isReplaced) {
+        cancelled += 1;
+        return false;
+      }
+      return true;
+    };
+
+    const startedAt = Date.now();
+    try {
+      const result = await job.run(job.controller.signal);
+      if (job.controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+      const durationMs = Date.now() - startedAt;
+      if (release()) {
+        completed += 1;
+        totalDurationMs += durationMs;
+        handlers.onSuccess?.(job.id, result, durationMs);
+      }
+    } catch (error) {
+      // A replaced job leaves the reporting to the job that replaced it
+      if (!release()) {
+        emitProgress();
+        pump();
+        return;
+      }
+      if (job.controller.signal.aborted || isAbortError(error)) {
+        cancelled += 1;
+        handlers.onCancel?.(job.id);
+      } else if (job.attempt <= settings.maxRetries && isRetryableError(error)) {
+        const backoff = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** (job.attempt - 1));
+        // +/-20% jitter so parallel retries don't line up
+        const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+        handlers.onRetry?.(job.id, job.attempt + 1, delayMs, error);
+        backingOff.set(job.id, job);
+        job.retryTimer = setTimeout(() => {
+          backingOff.delete(job.id);
+          waiting.unshift(job);
+          pump();
+        }, delayMs);
+      } else {
+        failed += 1;
+        handlers.onError?.(job.id, error);
+      }
+    }
+    emitProgress();
+    pump();
+  };
+
+  const pump = () => {
+    if (tokenTimer) {
+      clearTimeout(tokenTimer);
+      tokenTimer = undefined;
+    }
+    while (!paused && waiting.length > 0 && running.size < settings.concurrency) {
+      refillTokens();
+      if (tokens < 1) {
+        // Wake up when the next token is due
+        const waitMs = Math.ceil((1 - tokens) / (settings.requestsPerMinute / 60000));
+        tokenTimer = setTimeout(pump, waitMs);
+        return;
+      }
+      tokens -= 1;
+      execute(waiting.shift()!);
+    }
+  };
+
+  const enqueue = (id: string, run: QueueJobRunner<T>) => {
+    const replaced = running.get(id);
+    if (replaced) replaced.isReplaced = true;
+    cancel(id);
+    waiting.push({ id, run, attempt: 0, controller: new AbortController() });
+    total += 1;
+    emitProgress();
+    pump();
+  };
+
+  const cancel = (id: string) => {
+    const queuedIndex = waiting.findIndex(job => job.id === id);
+    if (queuedIndex >= 0) {
+      waiting.splice(queuedIndex, 1);
+      cancelled += 1;
+      handlers.onCancel?.(id);
+      emitProgress();
+      return;
+    }
+    const retrying = backingOff.get(id);
+    if (retrying) {
+      clearTimeout(retrying.retryTimer);
+      backingOff.delete(id);
+      cancelled += 1;
+      handlers.onCancel?.(id);
+      emitProgress();
+      return;
+    }
+    // Running jobs settle through their own catch block
+    running.get(id)?.controller.abort();
+  };
+
+  const cancelAll = () => {
+    [...waiting.map(job => job.id), ...backingOff.keys(), ...running.keys()].forEach(cancel);
+  };
+
+  const pause = () => {
+    paused = true;
+    emitProgress();
+  };
+
+  const resume = () => {
+    paused = false;
+    emitProgress();
+    pump();
+  };
+
+  const updateSettings = (next: QueueSettings) => {
+    refillTokens();
+    settings = next;
+    tokens = Math.min(tokens, settings.burst);
+    pump();
+  };
+
+  return { enqueue, cancel, cancelAll, pause, resume, updateSettings, getProgress };
+};
@@ -0,0 +1,185 @@
+import { FrameEditRequest, FrameRequest, ImageProvider } from "../types";
+import { resolveShotCast } from "./castService";
+import { loadImage, wrapText } from "../utils/canvas";
+import { abortableDelay } from "./generationQueue";
+import { getCameraReport } from "./cameraService";
+
+// Simulated network latency so the UI behaves as it would against a real backend.
+const MOCK_LATENCY_MS = 600;
+
+/**
+ * FNV-1a hash, used to derive a stable seed from the shot contents.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Small seeded PRNG (mulberry32) so the same shot and seed always draw the same frame.
+ */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draws a deterministic placeholder frame for a shot. No network access is needed.
+ */
+export const generateMockFrame = async ({ cast, shot, size, style, seed = 0, startFrame, notes = [], signal, onDiagnostic }: FrameRequest): Promise<string> => {
+  const startedAt = performance.now();
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+  const { width: frameWidth, height: frameHeight } = size;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = frameWidth;
+  canvas.height = frameHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context unavailable for mock rendering.");
+  }
+
+  const random = createRandom(hashString(`${shot.shot_type}|${shot.aspect_ratio}|${shot.prompt}|${seed}`));
+  const hue = Math.floor(random() * 360);
+
+  // An end frame reuses its start frame, pushed in, so the pair reads as one move
+  const start = startFrame ? await loadImage(startFrame) : null;
+  if (start) {
+    const scale = 1.15;
+    ctx.drawImage(start, (frameWidth - frameWidth * scale) / 2, (frameHeight - frameHeight * scale) / 2, frameWidth * scale, frameHeight * scale);
+    // Dim it so the start frame's slate doesn't fight with this one
+    ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    ctx.fillRect(0, 0, frameWidth, frameHeight);
+  } else {
+    // Sky / backdrop
+    const gradient = ctx.createLinearGradient(0, 0, 0, frameHeight);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 22%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 35%, 8%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, frameWidth, frameHeight);
+
+    // Blocky "set" silhouettes along a horizon line
+    const horizon = frameHeight * (0.55 + random() * 0.2);
+    ctx.fillStyle = `hsla(${(hue + 180) % 360}, 20%, 4%, 0.85)`;
+    for (let x = 0; x < frameWidth;) {
+      const width = 40 + random() * 120;
+      const height = 40 + random() * horizon * 0.7;
+      ctx.fillRect(x, horizon - height, width - 4, frameHeight - horizon + height);
+      x += width;
+    }
+  }
+
+  // Reference thumbnails so the pipeline visibly carries each character through
+  const shotCast = resolveShotCast(cast, shot).filter(member => member.referenceImages.length > 0);
+  const thumbHeight = frameHeight * 0.3;
+  let right = frameWidth - 24;
+  for (const member of shotCast) {
+    const ref = await loadImage(member.referenceImages[0].dataUrl);
+    if (!ref) continue;
+    const thumbWidth = (ref.width / ref.height) * thumbHeight;
+    const x = right - thumbWidth;
+    const y = frameHeight - thumbHeight - 48;
+    if (x < frameWidth * 0.4) break;
+    ctx.drawImage(ref, x, y, thumbWidth, thumbHeight);
+    ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, thumbWidth, thumbHeight);
+    ctx.fillStyle = 'rgba(255,255,255,0.8)';
+    ctx.font = '14px monospace';
+    ctx.fillText(member.name.toUpperCase(), x, y + thumbHeight + 20);
+    right = x - 16;
+  }
+
+  // Slate text
+  ctx.fillStyle = 'rgba(255,255,255,0.9)';
+  ctx.font = 'bold 28px monospace';
+  ctx.fillText(`${shot.shot_type.toUpperCase()} · ${shot.aspect_ratio}${startFrame ? ' · END' : ''}`, 32, 52);
+  const cameraReport = getCameraReport(shot.camera).join(' · ');
+  const textTop = cameraReport ? 118 : 92;
+  if (cameraReport) {
+    ctx.font = '16px monospace';
+    ctx.fillText(cameraReport.toUpperCase(), 32, 84);
+  }
+  ctx.font = '18px sans-serif';
+  wrapText(ctx, shot.prompt, frameWidth * 0.6).slice(0, 6).forEach((line, i) => {
+    ctx.fillText(line, 32, textTop + i * 26);
+  });
+  ctx.fillStyle = 'rgba(255,255,255,0.4)';
+  ctx.font = '14px monospace';
+  ctx.fillText(`MOCK PROVIDER · PLACEHOLDER FRAME${style ? ` · ${style.name.toUpperCase()}` : ''}`, 32, frameHeight - 28);
+
+  onDiagnostic?.({
+    prompt: [shot.prompt, ...notes.map(note => `Note: ${note}`)].join('\n'),
+    payloadBytes: 0,
+    latencyMs: Math.round(performance.now() - startedAt),
+    response: `Placeholder ${frameWidth}x${frameHeight} drawn locally`,
+  });
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Fakes a region edit by tinting the masked area and captioning the correction.
+ */
+export const editMockFrame = async ({ image, mask, instruction, signal, onDiagnostic }: FrameEditRequest): Promise<string> => {
+  const startedAt = performance.now();
+  await abortableDelay(MOCK_LATENCY_MS, signal);
+
+  const [frame, maskImage] = await Promise.all([loadImage(image), loadImage(mask)]);
+  if (!frame || !maskImage) {
+    throw new Error("Could not decode the frame or mask for editing.");
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context unavailable for mock rendering.");
+  }
+  ctx.drawImage(frame, 0, 0);
+
+  // White areas of the mask pick up the tint, black areas stay untouched
+  const tint = document.createElement('canvas');
+  tint.width = frame.width;
+  tint.height = frame.height;
+  const tintCtx = tint.getContext('2d')!;
+  tintCtx.drawImage(maskImage, 0, 0, frame.width, frame.height);
+  tintCtx.globalCompositeOperation = 'multiply';
+  tintCtx.fillStyle = `hsl(${hashString(instruction) % 360}, 80%, 45%)`;
+  tintCtx.fillRect(0, 0, frame.width, frame.height);
+  ctx.globalCompositeOperation = 'screen';
+  ctx.drawImage(tint, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+
+  ctx.fillStyle = 'rgba(0,0,0,0.6)';
+  ctx.fillRect(0, frame.height - 44, frame.width, 44);
+  ctx.fillStyle = 'rgba(255,255,255,0.9)';
+  ctx.font = '16px monospace';
+  ctx.fillText(`EDIT · ${instruction}`.slice(0, 90), 16, frame.height - 16);
+
+  onDiagnostic?.({
+    prompt: instruction,
+    payloadBytes: 0,
+    latencyMs: Math.round(performance.now() - startedAt),
+    response: `Edit of ${frame.width}x${frame.height} frame drawn locally`,
+  });
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  model: 'mock-canvas',
+  isAvailable: () => true,
+  generateFrame: generateMockFrame,
+  editFrame: editMockFrame,
+};
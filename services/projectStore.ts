@@ -0,0 +1,222 @@
+import { CastMember, DEFAULT_CHARACTER_NAME, DEFAULT_SHOT_LIST, GeneratedShot, GenerationStatus, Project, ProjectSummary, ReferenceAngle } from "../types";
+import { generateId } from "../utils/ids";
+import { createCastMember } from "./castService";
+import { createReferenceImage, DEFAULT_REFERENCE_SETTINGS } from "./referenceService";
+import { createScenesFromHeadings } from "./sceneService";
+import { assignShotIds, parseShotList, serializeShotList } from "./shotListSchema";
+import { getPrimaryTake } from "./takeService";
+import { createDefaultStyles } from "./styleService";
+
+const DB_NAME = 'cinegen';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+// Shots saved before take history held a single frame
+type StoredShot = Omit<GeneratedShot, 'takes'> & {
+  takes?: GeneratedShot['takes'];
+  imageUrl?: string;
+  model?: string;
+  generatedAt?: number;
+  durationMs?: number;
+};
+
+// Reference images saved before angle labels were plain data URLs
+type StoredCastMember = Omit<CastMember, 'referenceImages'> & {
+  referenceImages: (CastMember['referenceImages'][number] | string)[];
+};
+
+// Projects saved before multi-character casts held a single reference image,
+// and those saved before style presets, prompt snippets, reference settings,
+// scenes or snapshots have none
+type StoredProject = Omit<Project, 'shots' | 'cast' | 'referenceSettings' | 'styles' | 'styleId' | 'snippets' | 'sequences' | 'scenes' | 'snapshots'> & {
+  refImage?: string | null;
+  cast?: StoredCastMember[];
+  referenceSettings?: Project['referenceSettings'];
+  shots: StoredShot[];
+  styles?: Project['styles'];
+  styleId?: Project['styleId'];
+  snippets?: Project['snippets'];
+  sequences?: Project['sequences'];
+  scenes?: Project['scenes'];
+  snapshots?: Project['snapshots'];
+};
+
+const migrateShot = (shot: StoredShot, fallbackTime: number): GeneratedShot => {
+  if (shot.takes) return shot as GeneratedShot;
+  const { imageUrl, model, generatedAt, durationMs, ...rest } = shot;
+  return {
+    ...rest,
+    takes: imageUrl
+      ? [{ id: generateId(), imageUrl, prompt: shot.prompt, model, generatedAt: generatedAt ?? fallbackTime, durationMs }]
+      : [],
+  };
+};
+
+// Unlabelled references become a front view followed by others
+const migrateCastMember = (member: StoredCastMember): CastMember => ({
+  ...member,
+  referenceImages: member.referenceImages.map((image, index) =>
+    typeof image === 'string'
+      ? createReferenceImage(image, index === 0 ? ReferenceAngle.FRONT : ReferenceAngle.OTHER)
+      : image
+  ),
+});
+
+// Shot lists saved before shots had ids get the ids of the Dailies at the same
+// positions, and scene headings become scenes
+const migrateShotList = (project: StoredProject): Pick<Project, 'shotListJson' | 'scenes'> => {
+  const parsed = parseShotList(project.shotListJson);
+  if (!parsed.ok) return { shotListJson: project.shotListJson, scenes: project.scenes ?? [] };
+  const scenes = project.scenes ?? createScenesFromHeadings(parsed.shots);
+  if (parsed.shots.every(shot => shot.id)) return { shotListJson: project.shotListJson, scenes };
+  const shots = assignShotIds(parsed.shots, project.shots.map(shot => shot.id));
+  return { shotListJson: serializeShotList(shots), scenes };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open project database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the project store and resolves with its result.
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECT_STORE, mode);
+    const request = run(tx.objectStore(PROJECT_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error ?? new Error("Project storage request failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("Project storage transaction aborted"));
+  });
+};
+
+/**
+ * Creates a new, unsaved project with the default shot list.
+ */
+export const createProject = (name = 'Untitled Project'): Project => {
+  const now = Date.now();
+  const styles = createDefaultStyles();
+  return {
+    id: generateId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    cast: [createCastMember(DEFAULT_CHARACTER_NAME)],
+    referenceSettings: DEFAULT_REFERENCE_SETTINGS,
+    styles,
+    styleId: styles[0].id,
+    snippets: [],
+    sequences: [],
+    scenes: [],
+    shotListJson: serializeShotList(assignShotIds(DEFAULT_SHOT_LIST)),
+    shots: [],
+    snapshots: [],
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<StoredProject[]>('readonly', store => store.getAll());
+  return projects
+    .map(project => ({
+      id: project.id,
+      name: project.name,
+      updatedAt: project.updatedAt,
+      shotCount: project.shots.length,
+      thumbnailUrl: project.shots
+        .map(s => getPrimaryTake(migrateShot(s, project.updatedAt)))
+        .find(take => take)?.imageUrl,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a project. Shots that were still rendering when the project was last
+ * saved are marked as failed, since that work did not survive the reload.
+ */
+export const loadProject = async (id: string): Promise<Project | undefined> => {
+  const stored = await withStore<StoredProject | undefined>('readonly', store => store.get(id));
+  if (!stored) return undefined;
+  const { refImage, ...project } = stored;
+  const styles = project.styles ?? createDefaultStyles();
+  return {
+    ...project,
+    styles,
+    styleId: project.styleId !== undefined ? project.styleId : styles[0].id,
+    snippets: project.snippets ?? [],
+    sequences: project.sequences ?? [],
+    snapshots: project.snapshots ?? [],
+    ...migrateShotList(stored),
+    cast: project.cast
+      ? project.cast.map(migrateCastMember)
+      : refImage ? [createCastMember(DEFAULT_CHARACTER_NAME, [createReferenceImage(refImage)])] : [],
+    referenceSettings: project.referenceSettings ?? DEFAULT_REFERENCE_SETTINGS,
+    shots: project.shots.map(stored => {
+      const s = migrateShot(stored, project.updatedAt);
+      return s.status === GenerationStatus.PENDING || s.status === GenerationStatus.QUEUED
+        ? { ...s, status: GenerationStatus.ERROR, error: "Generation interrupted before the project was saved." }
+        : s;
+    }),
+  };
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (!project) throw new Error("Project not found");
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const project = await loadProject(id);
+  if (!project) throw new Error("Project not found");
+  const now = Date.now();
+  const copy: Project = {
+    ...project,
+    id: generateId(),
+    name: `${project.name} (Copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+// Remembers which project to reopen on the next visit
+const LAST_PROJECT_KEY = 'cinegen.lastProjectId';
+
+export const getLastProjectId = (): string | null => {
+  return localStorage.getItem(LAST_PROJECT_KEY);
+};
+
+export const setLastProjectId = (id: string): void => {
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+};
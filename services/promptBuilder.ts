@@ -0,0 +1,58 @@
+import { FrameSize, ShotConfig, StylePreset } from "../types";
+import { describeCamera, MovePosition } from "./cameraService";
+
+export interface FramePromptInput {
+  shot: ShotConfig;
+  characterNames: string[]; // Cast members whose references are attached
+  size: FrameSize;
+  style?: StylePreset;
+  movePosition?: MovePosition; // Set when both ends of a camera move are rendered
+  notes?: string[]; // Reviewer notes on earlier takes
+}
+
+/**
+ * Prompt lines describing a style. Empty fields are skipped.
+ */
+export const describeStyle = (style: StylePreset): string[] => {
+  const lines = [
+    style.medium && `Style: ${style.medium}.`,
+    style.palette && `Palette and lighting: ${style.palette}.`,
+    style.lens && `Lens: ${style.lens}.`,
+    style.filmStock && `Film stock: ${style.filmStock}.`,
+    style.negativePrompt && `Avoid: ${style.negativePrompt}.`,
+  ];
+  return lines.filter((line): line is string => !!line);
+};
+
+/**
+ * Builds the text prompt for one storyboard frame. Used by the provider and
+ * by the prompt preview, so what is previewed is exactly what is sent.
+ */
+export const buildFramePrompt = ({ shot, characterNames, size, style, movePosition, notes = [] }: FramePromptInput): string => {
+  const characterInstruction = characterNames.length > 0
+    ? [
+        `SYSTEM INSTRUCTION: The attached images are CHARACTER REFERENCES, each introduced by the character's name (${characterNames.join(', ')}).`,
+        `You MUST match each character's visual appearance (face, hair, clothing style) from their own reference images exactly in the new generated scene.`,
+        `Keep every character distinct; never mix features between characters.`,
+      ]
+    : [`SYSTEM INSTRUCTION: No characters from the cast appear in this shot.`];
+
+  // The shot's own lens wins over the style's
+  const styleLines = style ? describeStyle(shot.camera?.lens_mm ? { ...style, lens: '' } : style) : [];
+  const cameraLines = describeCamera(shot.camera, movePosition);
+  const noteLines = notes.length > 0
+    ? [``, `REVIEWER NOTES on earlier takes of this shot. Address each of them in this frame:`, ...notes.map(note => `- ${note}`)]
+    : [];
+
+  return [
+    `Generate a cinematic storyboard frame.`,
+    `Shot Type: ${shot.shot_type}.`,
+    `Aspect Ratio: ${shot.aspect_ratio} (${size.width}x${size.height}). Compose for this exact frame.`,
+    `Scene Description: ${shot.prompt}.`,
+    ...cameraLines,
+    ``,
+    ...characterInstruction,
+    ...(styleLines.length > 0 ? styleLines : [`High quality, photorealistic, cinematic lighting.`]),
+    ...noteLines,
+  ].join('\n');
+};
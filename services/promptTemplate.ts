@@ -0,0 +1,206 @@
+import { PromptSnippet, Scene, ShotConfig } from "../types";
+import { findScene } from "./sceneService";
+
+/**
+ * Prompt template language.
+ *
+ *   {{location.alley}}                  inserts a snippet
+ *   {{#if char.hero}} ... {{/if}}       kept when the variable is non-empty
+ *   {{#if x}} ... {{else}} ... {{/if}}
+ *   {{#unless x}} ... {{/unless}}       kept when the variable is empty
+ *
+ * Snippets may use other snippets. `shot.*` variables describe the shot
+ * being rendered, so conditionals can depend on it; `shot.scene` is the
+ * heading of its scene.
+ */
+
+export type TemplateVariables = Record<string, string>;
+
+export class TemplateSyntaxError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+    this.offset = offset;
+  }
+}
+
+interface ConditionNode {
+  kind: 'condition';
+  keyword: 'if' | 'unless';
+  name: string;
+  offset: number;
+  then: TemplateNode[];
+  otherwise: TemplateNode[];
+}
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; name: string }
+  | ConditionNode;
+
+export interface TemplateResult {
+  text: string;
+  problems: string[]; // Syntax errors, unknown variables and snippet cycles
+}
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const NAME_PATTERN = /^[a-z_][\w-]*(?:\.[\w-]+)*$/i;
+
+// Always defined; filled in from the shot being rendered
+export const SHOT_VARIABLE_NAMES = [
+  'shot.type',
+  'shot.aspect_ratio',
+  'shot.scene',
+  'shot.location',
+  'shot.time_of_day',
+  'shot.style',
+  'shot.characters',
+];
+
+const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const open: { node: ConditionNode; inElse: boolean }[] = []; // Innermost last
+  const current = () => {
+    const top = open[open.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+  const readName = (name: string, offset: number) => {
+    if (!NAME_PATTERN.test(name)) {
+      throw new TemplateSyntaxError(name ? `Invalid variable name "${name}"` : `Empty '{{ }}'`, offset);
+    }
+    return name;
+  };
+  const pushText = (start: number, end: number) => {
+    const value = source.slice(start, end);
+    const stray = value.indexOf('{{');
+    if (stray >= 0) throw new TemplateSyntaxError(`Unclosed '{{'`, start + stray);
+    if (value) current().push({ kind: 'text', value });
+  };
+
+  let last = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source))) {
+    const offset = match.index;
+    pushText(last, offset);
+    last = offset + match[0].length;
+
+    const [keyword, ...rest] = match[1].split(/\s+/);
+    const argument = rest.join(' ');
+    if (keyword === '#if' || keyword === '#unless') {
+      const node: ConditionNode = {
+        kind: 'condition',
+        keyword: keyword === '#if' ? 'if' : 'unless',
+        name: readName(argument, offset),
+        offset,
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      open.push({ node, inElse: false });
+    } else if (keyword === 'else') {
+      const top = open[open.length - 1];
+      if (!top || top.inElse) throw new TemplateSyntaxError(`Unexpected '{{else}}'`, offset);
+      top.inElse = true;
+    } else if (keyword === '/if' || keyword === '/unless') {
+      const top = open.pop();
+      if (!top || `/${top.node.keyword}` !== keyword) {
+        throw new TemplateSyntaxError(`'{{${keyword}}}' does not close an open block`, offset);
+      }
+    } else {
+      if (argument) throw new TemplateSyntaxError(`Unknown template tag "{{${match[1]}}}"`, offset);
+      current().push({ kind: 'variable', name: readName(keyword, offset) });
+    }
+  }
+
+  pushText(last, source.length);
+
+  const unclosed = open.pop();
+  if (unclosed) throw new TemplateSyntaxError(`'{{#${unclosed.node.keyword} ${unclosed.node.name}}}' is never closed`, unclosed.node.offset);
+  return root;
+};
+
+/**
+ * Expands a template. Unknown variables expand to nothing and are listed in
+ * `problems`, as are syntax errors (the template then expands to nothing).
+ */
+export const renderTemplate = (source: string, variables: TemplateVariables): TemplateResult => {
+  const problems = new Set<string>();
+
+  // `trail` holds the snippets being expanded, to catch cycles
+  const render = (template: string, trail: string[]): string => {
+    let nodes: TemplateNode[];
+    try {
+      nodes = parseTemplate(template);
+    } catch (e) {
+      if (!(e instanceof TemplateSyntaxError)) throw e;
+      const snippet = trail[trail.length - 1];
+      problems.add(snippet ? `In snippet "${snippet}": ${e.message}` : e.message);
+      return '';
+    }
+
+    const lookup = (name: string): string => {
+      if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+        problems.add(`Unknown variable "{{${name}}}"`);
+        return '';
+      }
+      if (trail.includes(name)) {
+        problems.add(`Snippet "${name}" refers to itself`);
+        return '';
+      }
+      return render(variables[name], [...trail, name]);
+    };
+
+    const renderNodes = (list: TemplateNode[]): string => list.map(node => {
+      if (node.kind === 'text') return node.value;
+      if (node.kind === 'variable') return lookup(node.name);
+      const isSet = lookup(node.name).trim() !== '';
+      return renderNodes(isSet === (node.keyword === 'if') ? node.then : node.otherwise);
+    }).join('');
+
+    return renderNodes(nodes);
+  };
+
+  // Dropped blocks tend to leave doubled spaces behind
+  const text = render(source, []).replace(/[ \t]{2,}/g, ' ').trim();
+  return { text, problems: Array.from(problems) };
+};
+
+/**
+ * Variables available to a shot's prompt. Without a shot, the `shot.*`
+ * variables are empty, which is enough for validation.
+ */
+export const getTemplateVariables = (snippets: PromptSnippet[], shot?: ShotConfig, scenes: Scene[] = []): TemplateVariables => {
+  const variables: TemplateVariables = {};
+  for (const snippet of snippets) {
+    const name = snippet.name.trim();
+    if (name) variables[name] = snippet.value;
+  }
+  const scene = findScene(scenes, shot?.scene);
+  const shotValues = [
+    shot?.shot_type,
+    shot?.aspect_ratio,
+    scene?.heading || shot?.scene,
+    scene?.location,
+    scene?.timeOfDay,
+    shot?.style,
+    shot?.characters?.join(', '),
+  ];
+  SHOT_VARIABLE_NAMES.forEach((name, i) => {
+    variables[name] = shotValues[i] ?? '';
+  });
+  return variables;
+};
+
+export const isValidSnippetName = (name: string): boolean =>
+  NAME_PATTERN.test(name) && !SHOT_VARIABLE_NAMES.includes(name);
+
+/**
+ * Returns the shot with its prompt template expanded, ready for a provider.
+ */
+export const expandShotPrompt = (shot: ShotConfig, snippets: PromptSnippet[], scenes: Scene[] = []): ShotConfig => ({
+  ...shot,
+  prompt: renderTemplate(shot.prompt, getTemplateVariables(snippets, shot, scenes)).text,
+});
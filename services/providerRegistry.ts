@@ -0,0 +1,35 @@
+import { ImageProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+// Registered providers, keyed by id. Insertion order is the preference order
+// used when picking a default.
+const providers = new Map<string, ImageProvider>();
+
+/**
+ * Registers an image provider. Registering an id twice replaces the earlier entry.
+ */
+export const registerProvider = (provider: ImageProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): ImageProvider | undefined => {
+  return providers.get(id);
+};
+
+export const listProviders = (): ImageProvider[] => {
+  return Array.from(providers.values());
+};
+
+/**
+ * Returns the id of the first registered provider that can currently run,
+ * falling back to the first registered provider.
+ */
+export const getDefaultProviderId = (): string => {
+  const all = listProviders();
+  const available = all.find(p => p.isAvailable());
+  return (available ?? all[0]).id;
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
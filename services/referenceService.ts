@@ -0,0 +1,144 @@
+import { CastMember, ReferenceAngle, ReferenceImage, ReferenceSettings, ShotConfig } from "../types";
+import { getShotReferences, resolveShotCast } from "./castService";
+import { loadImage } from "../utils/canvas";
+import { generateId } from "../utils/ids";
+
+// Matches what was sent before the settings were exposed
+export const DEFAULT_REFERENCE_SETTINGS: ReferenceSettings = {
+  maxEdge: 1024,
+  format: 'image/jpeg',
+  quality: 0.8,
+};
+
+export const REFERENCE_MAX_EDGE_OPTIONS = [512, 768, 1024, 1536, 2048];
+
+export const REFERENCE_FORMATS: { value: ReferenceSettings['format']; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/png', label: 'PNG' },
+];
+
+// Uploads are stored at up to this size so later crops keep their detail
+const LIBRARY_MAX_EDGE = 2048;
+const LIBRARY_QUALITY = 0.92;
+
+export const REFERENCE_FILE_ACCEPT = 'image/*,.heic,.heif';
+
+export interface ReferenceCrop {
+  x: number; // Fractions of the rotated image
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_CROP: ReferenceCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+export const createReferenceImage = (dataUrl: string, angle = ReferenceAngle.FRONT): ReferenceImage => ({
+  id: generateId(),
+  dataUrl,
+  angle,
+});
+
+const isHeic = (file: File) => /\.(heic|heif)$/i.test(file.name) || /image\/hei[cf]/.test(file.type);
+
+/**
+ * Draws a region of an image, rotated by a multiple of 90 degrees, scaled so
+ * its long edge is at most `maxEdge`. Transparent areas become white so
+ * JPEG output doesn't turn them black.
+ */
+const renderImage = (
+  img: HTMLImageElement,
+  maxEdge: number,
+  rotation = 0,
+  crop: ReferenceCrop = FULL_CROP
+): HTMLCanvasElement => {
+  const quarterTurns = ((Math.round(rotation / 90) % 4) + 4) % 4;
+  const swap = quarterTurns % 2 === 1;
+  const rotatedWidth = swap ? img.height : img.width;
+  const rotatedHeight = swap ? img.width : img.height;
+
+  const sourceWidth = crop.width * rotatedWidth;
+  const sourceHeight = crop.height * rotatedHeight;
+  const scale = Math.min(1, maxEdge / Math.max(sourceWidth, sourceHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotatedWidth, -crop.y * rotatedHeight);
+  // Rotate about the rotated image's centre
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.rotate((quarterTurns * Math.PI) / 2);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  return canvas;
+};
+
+/**
+ * Decodes an uploaded image into the library. Anything the browser can
+ * display is accepted; HEIC only decodes where the browser supports it
+ * (currently Safari).
+ */
+export const importReferenceFile = async (file: File, angle: ReferenceAngle): Promise<ReferenceImage> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    if (!img) {
+      throw new Error(isHeic(file)
+        ? `${file.name}: this browser can't decode HEIC. Convert it to JPEG or open the app in Safari.`
+        : `${file.name} is not an image this browser can read.`);
+    }
+    const canvas = renderImage(img, LIBRARY_MAX_EDGE);
+    return createReferenceImage(canvas.toDataURL('image/jpeg', LIBRARY_QUALITY), angle);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Applies a rotation and crop, replacing the stored image.
+ */
+export const transformReferenceImage = async (
+  reference: ReferenceImage,
+  rotation: number,
+  crop: ReferenceCrop
+): Promise<ReferenceImage> => {
+  const img = await loadImage(reference.dataUrl);
+  if (!img) throw new Error("Could not read the reference image.");
+  const canvas = renderImage(img, LIBRARY_MAX_EDGE, rotation, crop);
+  return { ...reference, dataUrl: canvas.toDataURL('image/jpeg', LIBRARY_QUALITY) };
+};
+
+/**
+ * Re-encodes a reference for sending, per the project's settings.
+ */
+export const encodeReference = async (dataUrl: string, settings: ReferenceSettings): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  if (!img) return dataUrl;
+  return renderImage(img, settings.maxEdge).toDataURL(settings.format, settings.quality);
+};
+
+/**
+ * The characters in a shot with only the references it asks for, encoded for
+ * sending. Characters left without references are dropped.
+ */
+export const prepareShotCast = async (
+  cast: CastMember[],
+  shot: ShotConfig,
+  settings: ReferenceSettings
+): Promise<CastMember[]> => {
+  const prepared: CastMember[] = [];
+  for (const member of resolveShotCast(cast, shot)) {
+    const images = getShotReferences(member, shot);
+    if (images.length === 0) continue;
+    const referenceImages = await Promise.all(images.map(async image => ({
+      ...image,
+      dataUrl: await encodeReference(image.dataUrl, settings),
+    })));
+    prepared.push({ ...member, referenceImages });
+  }
+  return prepared;
+};
+
@@ -0,0 +1,447 @@
+import { GeneratedShot, ReviewStatus, Scene } from "../types";
+import { DEFAULT_SHOT_DURATION } from "./animatic";
+import { getCameraReport } from "./cameraService";
+import { createComment, createReview, getReviewStatus } from "./reviewService";
+import { findScene, getShotNumbers } from "./sceneService";
+import { getPrimaryTake } from "./takeService";
+import { generateId } from "../utils/ids";
+
+/**
+ * Read-only review bundle: one HTML file with the frames inlined as data
+ * URLs, the shot metadata as embedded JSON and a small viewer with grid,
+ * sequence and fullscreen modes. It needs no network access and no app.
+ *
+ * Reviewers approve or reject shots and write notes in the file; the viewer
+ * keeps them in the browser's storage and exports them as a notes JSON file:
+ *
+ *   { "format": "cinegen-review-notes", "version": 1, "bundle_id": "...",
+ *     "project": "...", "reviewer": "...", "exported_at": "...",
+ *     "notes": [{ "shot_id", "shot_number", "take_id", "status", "note", "updated_at" }] }
+ *
+ * `status` is "Approved" or "Needs Changes". Importing the notes adds each
+ * note as a comment on its shot and applies the status.
+ */
+const BUNDLE_FORMAT = 'cinegen-review-bundle';
+const NOTES_FORMAT = 'cinegen-review-notes';
+const NOTES_VERSION = 1;
+
+// Statuses a reviewer can give from the bundle
+const BUNDLE_STATUSES = [ReviewStatus.APPROVED, ReviewStatus.NEEDS_CHANGES];
+
+export interface ReviewBundleOptions {
+  projectName: string;
+  captions: string[]; // Text shown per shot, normally the final prompt
+  scenes?: Scene[];
+}
+
+interface BundleShot {
+  id: string;
+  number: string; // Production shot number
+  shot_type: string;
+  aspect_ratio: string;
+  scene?: string;
+  camera: string[]; // Camera report labels
+  characters: string[];
+  duration: number; // Seconds, for sequence playback
+  caption: string;
+  status: ReviewStatus; // Status in the project when the bundle was written
+  take_id?: string;
+  take_number?: number;
+  frame?: string; // Data URL; missing when the shot has no take
+  end_frame?: string;
+}
+
+interface BundleData {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  bundle_id: string;
+  project: string;
+  exported_at: string;
+  shots: BundleShot[];
+}
+
+export interface ReviewNoteEntry {
+  shot_id: string;
+  shot_number?: string;
+  take_id?: string;
+  status?: ReviewStatus;
+  note?: string;
+  updated_at?: string; // ISO timestamp
+}
+
+export interface ReviewNotesFile {
+  format: typeof NOTES_FORMAT;
+  version: number;
+  bundle_id?: string;
+  project?: string;
+  reviewer?: string;
+  exported_at?: string;
+  notes: ReviewNoteEntry[];
+}
+
+export interface AppliedReviewNotes {
+  shots: GeneratedShot[];
+  applied: number; // Notes matched to a shot
+  unmatched: number; // Notes for shots no longer in the Dailies
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Embedded JSON must not be able to close its <script> element
+const toScriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const VIEWER_STYLE = `
+*{box-sizing:border-box}
+body{margin:0;background:#09090b;color:#e4e4e7;font:14px/1.5 system-ui,-apple-system,sans-serif}
+button,input,textarea{font:inherit;color:inherit}
+header{position:sticky;top:0;z-index:2;display:flex;flex-wrap:wrap;gap:12px;align-items:center;padding:12px 20px;background:#09090bee;border-bottom:1px solid #27272a}
+h1{margin:0;font-size:16px;font-weight:600}
+.meta{color:#71717a;font:11px ui-monospace,monospace;text-transform:uppercase}
+.spacer{flex:1}
+.btn{background:#18181b;border:1px solid #3f3f46;border-radius:6px;padding:4px 10px;font-size:12px;cursor:pointer}
+.btn:hover{border-color:#71717a}
+.btn.active{background:#1e3a8a;border-color:#3b82f6}
+.btn.approve.active{background:#064e3b;border-color:#10b981}
+.btn.reject.active{background:#78350f;border-color:#f59e0b}
+.field{background:#18181b;border:1px solid #27272a;border-radius:6px;padding:4px 8px;font-size:12px}
+main{padding:20px}
+.grid{display:grid;grid-template-columns:repeat(auto-fill,minmax(320px,1fr));gap:20px}
+.card{background:#18181b;border:1px solid #27272a;border-radius:8px;overflow:hidden;display:flex;flex-direction:column}
+.slate{display:flex;justify-content:space-between;padding:6px 10px;font:11px ui-monospace,monospace;text-transform:uppercase;color:#a1a1aa;border-bottom:1px solid #27272a}
+.slate b{color:#3b82f6}
+.camera{padding:3px 10px;font:10px ui-monospace,monospace;text-transform:uppercase;color:#71717a;border-bottom:1px solid #27272a}
+.frame{background:#000;display:flex;align-items:center;justify-content:center;color:#52525b;font:12px ui-monospace,monospace;cursor:zoom-in}
+.frame img{width:100%;height:100%;object-fit:contain;display:block}
+.body{padding:10px;display:flex;flex-direction:column;gap:8px;flex:1}
+.caption{margin:0;color:#d4d4d8;font-size:13px}
+.review{display:flex;gap:6px;align-items:center}
+.review textarea{flex:1;min-height:56px;resize:vertical}
+.sequence{display:flex;flex-direction:column;align-items:center;gap:12px}
+.sequence .frame{width:min(100%,calc(70vh * var(--ratio)));cursor:default}
+.sequence .card{width:min(100%,calc(70vh * var(--ratio)))}
+.nav{display:flex;gap:8px;align-items:center}
+:fullscreen main{padding:0}
+:fullscreen .sequence .frame,:fullscreen .sequence .card{width:min(100vw,calc(82vh * var(--ratio)))}
+`;
+
+// Plain script so the bundle runs in any browser without a build step
+const VIEWER_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('bundle-data').textContent);
+  var storageKey = 'cinegen-review:' + data.bundle_id;
+  var state = { mode: 'grid', index: 0, showEnd: false, playing: null, reviewer: '', notes: {} };
+  try { Object.assign(state, JSON.parse(localStorage.getItem(storageKey) || '{}'), { mode: 'grid', playing: null }); } catch (e) {}
+
+  function save() {
+    try { localStorage.setItem(storageKey, JSON.stringify({ reviewer: state.reviewer, notes: state.notes })); } catch (e) {}
+  }
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'text') node.textContent = attrs[key];
+      else if (key.indexOf('on') === 0) node.addEventListener(key.slice(2), attrs[key]);
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) { if (child) node.appendChild(child); });
+    return node;
+  }
+
+  function ratioOf(shot) {
+    var parts = shot.aspect_ratio.split(':');
+    return Number(parts[0]) / Number(parts[1]) || 16 / 9;
+  }
+
+  function noteFor(shot) {
+    return state.notes[shot.id] || (state.notes[shot.id] = { status: null, note: '' });
+  }
+
+  function setNote(shot, changes) {
+    var entry = noteFor(shot);
+    Object.assign(entry, changes, { updated_at: new Date().toISOString() });
+    save();
+  }
+
+  function reviewControls(shot) {
+    var entry = noteFor(shot);
+    var buttons = [['Approved', 'Approve', 'approve'], ['Needs Changes', 'Reject', 'reject']].map(function (option) {
+      return el('button', {
+        class: 'btn ' + option[2] + (entry.status === option[0] ? ' active' : ''),
+        text: option[1],
+        onclick: function () { setNote(shot, { status: entry.status === option[0] ? null : option[0] }); render(); }
+      });
+    });
+    var note = el('textarea', { class: 'field', placeholder: 'Note for shot ' + shot.number });
+    note.value = entry.note;
+    note.addEventListener('input', function () { setNote(shot, { note: note.value }); updateCount(); });
+    return el('div', { class: 'review' }, [note, el('div', { style: 'display:flex;flex-direction:column;gap:6px' }, buttons)]);
+  }
+
+  function frame(shot, onOpen) {
+    var source = state.mode === 'sequence' && state.showEnd && shot.end_frame ? shot.end_frame : shot.frame;
+    var box = el('div', { class: 'frame', style: 'aspect-ratio:' + ratioOf(shot) }, [
+      source ? el('img', { src: source, alt: shot.caption }) : el('span', { text: 'NO FRAME' })
+    ]);
+    if (onOpen) box.addEventListener('click', onOpen);
+    return box;
+  }
+
+  function card(shot, index) {
+    var status = (noteFor(shot).status || shot.status).toUpperCase();
+    return el('div', { class: 'card' }, [
+      el('div', { class: 'slate' }, [
+        el('span', {}, [el('b', { text: shot.number }), document.createTextNode(' ' + shot.shot_type)]),
+        el('span', { text: shot.aspect_ratio + ' \\u00b7 ' + status })
+      ]),
+      shot.camera.length ? el('div', { class: 'camera', text: shot.camera.join(' \\u00b7 ') }) : null,
+      frame(shot, state.mode === 'grid' ? function () { state.mode = 'sequence'; state.index = index; render(); } : null),
+      el('div', { class: 'body' }, [
+        shot.scene ? el('div', { class: 'meta', text: shot.scene }) : null,
+        el('p', { class: 'caption', text: shot.caption }),
+        shot.characters.length ? el('div', { class: 'meta', text: shot.characters.join(', ') }) : null,
+        reviewControls(shot)
+      ])
+    ]);
+  }
+
+  function go(offset) {
+    state.index = (state.index + offset + data.shots.length) % data.shots.length;
+    state.showEnd = false;
+    render();
+  }
+
+  function stop() {
+    clearTimeout(state.playing);
+    state.playing = null;
+  }
+
+  function play() {
+    if (state.playing) { stop(); render(); return; }
+    var step = function () {
+      state.playing = setTimeout(function () {
+        if (state.index === data.shots.length - 1) { stop(); render(); return; }
+        go(1);
+        step();
+      }, data.shots[state.index].duration * 1000);
+    };
+    step();
+    render();
+  }
+
+  function fullscreen() {
+    state.mode = 'sequence';
+    render();
+    if (document.fullscreenElement) document.exitFullscreen();
+    else if (document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+  }
+
+  function exportNotes() {
+    var notes = data.shots.filter(function (shot) {
+      var entry = state.notes[shot.id];
+      return entry && (entry.status || entry.note.trim());
+    }).map(function (shot) {
+      var entry = state.notes[shot.id];
+      return {
+        shot_id: shot.id,
+        shot_number: shot.number,
+        take_id: shot.take_id,
+        status: entry.status || undefined,
+        note: entry.note.trim() || undefined,
+        updated_at: entry.updated_at
+      };
+    });
+    var file = {
+      format: '${NOTES_FORMAT}',
+      version: ${NOTES_VERSION},
+      bundle_id: data.bundle_id,
+      project: data.project,
+      reviewer: state.reviewer,
+      exported_at: new Date().toISOString(),
+      notes: notes
+    };
+    var link = el('a', {
+      href: URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })),
+      download: data.project.replace(/[^a-z0-9]+/gi, '-').toLowerCase() + '_review-notes.json'
+    });
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  }
+
+  var countLabel;
+  function updateCount() {
+    var reviewed = data.shots.filter(function (shot) {
+      var entry = state.notes[shot.id];
+      return entry && (entry.status || entry.note.trim());
+    }).length;
+    countLabel.textContent = data.shots.length + ' shots \\u00b7 ' + reviewed + ' reviewed';
+  }
+
+  function render() {
+    var header = document.querySelector('header');
+    var main = document.querySelector('main');
+    header.textContent = '';
+    main.textContent = '';
+
+    var reviewer = el('input', { class: 'field', placeholder: 'Your name' });
+    reviewer.value = state.reviewer;
+    reviewer.addEventListener('input', function () { state.reviewer = reviewer.value; save(); });
+    countLabel = el('span', { class: 'meta' });
+    [
+      el('div', {}, [el('h1', { text: data.project }), countLabel]),
+      el('div', { class: 'spacer' }),
+      el('button', { class: 'btn' + (state.mode === 'grid' ? ' active' : ''), text: 'Grid', onclick: function () { stop(); state.mode = 'grid'; render(); } }),
+      el('button', { class: 'btn' + (state.mode === 'sequence' ? ' active' : ''), text: 'Sequence', onclick: function () { state.mode = 'sequence'; render(); } }),
+      el('button', { class: 'btn', text: 'Fullscreen', onclick: fullscreen }),
+      reviewer,
+      el('button', { class: 'btn active', text: 'Export Notes', onclick: exportNotes })
+    ].forEach(function (node) { header.appendChild(node); });
+    updateCount();
+
+    if (state.mode === 'grid') {
+      main.appendChild(el('div', { class: 'grid' }, data.shots.map(card)));
+      return;
+    }
+    var shot = data.shots[state.index];
+    var nav = el('div', { class: 'nav' }, [
+      el('button', { class: 'btn', text: '\\u2190 Prev', onclick: function () { stop(); go(-1); } }),
+      el('span', { class: 'meta', text: (state.index + 1) + ' / ' + data.shots.length }),
+      el('button', { class: 'btn', text: 'Next \\u2192', onclick: function () { stop(); go(1); } }),
+      el('button', { class: 'btn' + (state.playing ? ' active' : ''), text: state.playing ? 'Pause' : 'Play', onclick: play }),
+      shot.end_frame ? el('button', {
+        class: 'btn' + (state.showEnd ? ' active' : ''),
+        text: state.showEnd ? 'End Frame' : 'Start Frame',
+        onclick: function () { state.showEnd = !state.showEnd; render(); }
+      }) : null
+    ]);
+    main.appendChild(el('div', { class: 'sequence', style: '--ratio:' + ratioOf(shot) }, [nav, card(shot, state.index)]));
+  }
+
+  document.addEventListener('keydown', function (e) {
+    if (e.target.tagName === 'TEXTAREA' || e.target.tagName === 'INPUT') return;
+    if (e.key === 'ArrowRight' && state.mode === 'sequence') { stop(); go(1); }
+    else if (e.key === 'ArrowLeft' && state.mode === 'sequence') { stop(); go(-1); }
+    else if (e.key === 'f') fullscreen();
+    else if (e.key === 'g') { stop(); state.mode = 'grid'; render(); }
+  });
+
+  render();
+})();
+`;
+
+/**
+ * Writes the review bundle for the primary take of every shot.
+ */
+export const exportReviewBundle = (shots: GeneratedShot[], options: ReviewBundleOptions): Blob => {
+  const scenes = options.scenes ?? [];
+  const shotNumbers = getShotNumbers(shots, scenes);
+  const data: BundleData = {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    bundle_id: generateId(),
+    project: options.projectName,
+    exported_at: new Date().toISOString(),
+    shots: shots.map((shot, index) => {
+      const take = getPrimaryTake(shot);
+      const scene = findScene(scenes, shot.scene);
+      return {
+        id: shot.id,
+        number: shotNumbers[index],
+        shot_type: shot.shot_type,
+        aspect_ratio: shot.aspect_ratio,
+        ...(scene || shot.scene ? { scene: scene?.heading || shot.scene } : {}),
+        camera: getCameraReport(shot.camera),
+        characters: shot.characters ?? [],
+        duration: shot.duration ?? DEFAULT_SHOT_DURATION,
+        caption: options.captions[index] ?? shot.prompt,
+        status: getReviewStatus(shot),
+        ...(take ? {
+          take_id: take.id,
+          take_number: shot.takes.indexOf(take) + 1,
+          frame: take.imageUrl,
+          ...(take.endImageUrl ? { end_frame: take.endImageUrl } : {}),
+        } : {}),
+      };
+    }),
+  };
+
+  const title = escapeHtml(`${options.projectName} - Review`);
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${VIEWER_STYLE}</style>
+</head>
+<body>
+<header></header>
+<main></main>
+<script type="application/json" id="bundle-data">${toScriptJson(data)}</script>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+};
+
+/**
+ * Reads a notes file exported from a review bundle.
+ */
+export const parseReviewNotes = (text: string): ReviewNotesFile => {
+  let file: ReviewNotesFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("Notes file is not valid JSON.");
+  }
+  if (!file || file.format !== NOTES_FORMAT || !Array.isArray(file.notes)) {
+    throw new Error("File is not a CineGen review notes export.");
+  }
+  if (file.version > NOTES_VERSION) {
+    throw new Error(`Notes version ${file.version} is newer than this app supports.`);
+  }
+  for (const entry of file.notes) {
+    if (!entry || typeof entry.shot_id !== 'string') {
+      throw new Error("Every note needs a shot_id.");
+    }
+    if (entry.status !== undefined && !BUNDLE_STATUSES.includes(entry.status)) {
+      throw new Error(`Unknown review status "${entry.status}" for shot ${entry.shot_number ?? entry.shot_id}.`);
+    }
+  }
+  return file;
+};
+
+/**
+ * Adds the notes to the shots they were written on: each note becomes a
+ * comment and its status is applied. Notes already imported are skipped,
+ * so the same file can be imported twice.
+ */
+export const applyReviewNotes = (shots: GeneratedShot[], file: ReviewNotesFile): AppliedReviewNotes => {
+  const author = file.reviewer?.trim() || 'Client';
+  let applied = 0;
+  const next = shots.map(shot => {
+    const entries = file.notes.filter(entry => entry.shot_id === shot.id);
+    if (entries.length === 0) return shot;
+    applied += entries.length;
+    let review = shot.review ?? createReview();
+    for (const entry of entries) {
+      const note = entry.note?.trim();
+      const createdAt = Date.parse(entry.updated_at ?? '') || Date.parse(file.exported_at ?? '') || Date.now();
+      const isDuplicate = review.comments.some(comment =>
+        comment.author === author && comment.text === note && comment.createdAt === createdAt
+      );
+      if (note && !isDuplicate) {
+        const takeId = shot.takes.some(take => take.id === entry.take_id) ? entry.take_id : undefined;
+        review = {
+          ...review,
+          comments: [...review.comments, { ...createComment(author, note, takeId ? { takeId } : {}), createdAt }],
+        };
+      }
+      if (entry.status) review = { ...review, status: entry.status };
+    }
+    return { ...shot, review };
+  });
+  return { shots: next, applied, unmatched: file.notes.length - applied };
+};
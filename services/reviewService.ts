@@ -0,0 +1,82 @@
+import { FrameAnnotation, GeneratedShot, ReviewComment, ReviewStatus, ShotReview } from "../types";
+import { generateId } from "../utils/ids";
+
+const REVIEWER_NAME_KEY = 'cinegen.reviewerName';
+
+export const REVIEW_STATUSES = Object.values(ReviewStatus);
+
+export interface CommentThread {
+  comment: ReviewComment;
+  replies: ReviewComment[]; // Oldest first
+}
+
+export const createReview = (): ShotReview => ({
+  status: ReviewStatus.PENDING,
+  comments: [],
+  annotations: [],
+});
+
+export const getReviewStatus = (shot: GeneratedShot): ReviewStatus =>
+  shot.review?.status ?? ReviewStatus.PENDING;
+
+export const createComment = (
+  author: string,
+  text: string,
+  options: Pick<ReviewComment, 'parentId' | 'takeId' | 'forNextRender'> = {}
+): ReviewComment => ({
+  id: generateId(),
+  author,
+  text,
+  createdAt: Date.now(),
+  ...options,
+});
+
+/**
+ * Groups comments into top-level threads. Replies whose parent is gone are
+ * shown as threads of their own rather than dropped.
+ */
+export const getCommentThreads = (comments: ReviewComment[]): CommentThread[] => {
+  const ids = new Set(comments.map(comment => comment.id));
+  const threads = comments
+    .filter(comment => !comment.parentId || !ids.has(comment.parentId))
+    .map(comment => ({ comment, replies: [] as ReviewComment[] }));
+  const byId = new Map(threads.map(thread => [thread.comment.id, thread]));
+  for (const comment of comments) {
+    if (comment.parentId) byId.get(comment.parentId)?.replies.push(comment);
+  }
+  return threads;
+};
+
+/**
+ * Notes the next render of the shot should address: open comments marked
+ * for it, in the order they were written.
+ */
+export const getRenderNotes = (review: ShotReview | undefined): string[] =>
+  (review?.comments ?? [])
+    .filter(comment => !comment.parentId && comment.forNextRender && !comment.resolved && comment.text.trim())
+    .map(comment => comment.text.trim());
+
+export const countOpenComments = (review: ShotReview | undefined): number =>
+  (review?.comments ?? []).filter(comment => !comment.parentId && !comment.resolved).length;
+
+export const getTakeAnnotations = (review: ShotReview | undefined, takeId: string): FrameAnnotation[] =>
+  (review?.annotations ?? []).filter(annotation => annotation.takeId === takeId);
+
+/**
+ * A new take of a shot sent back for changes is ready to be looked at again.
+ */
+export const reopenForNewTake = (review: ShotReview | undefined): ShotReview | undefined =>
+  review?.status === ReviewStatus.NEEDS_CHANGES ? { ...review, status: ReviewStatus.PENDING } : review;
+
+export const countByStatus = (shots: GeneratedShot[]): Record<ReviewStatus, number> => {
+  const counts = Object.fromEntries(REVIEW_STATUSES.map(status => [status, 0])) as Record<ReviewStatus, number>;
+  for (const shot of shots) counts[getReviewStatus(shot)]++;
+  return counts;
+};
+
+// The reviewer's name is per browser, not per project
+export const getReviewerName = (): string => localStorage.getItem(REVIEWER_NAME_KEY) ?? '';
+
+export const setReviewerName = (name: string): void => {
+  localStorage.setItem(REVIEWER_NAME_KEY, name);
+};
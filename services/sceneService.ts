@@ -0,0 +1,226 @@
+import { Scene, Sequence, ShotConfig } from "../types";
+import { ScreenplayScene } from "./screenplayParser";
+import { generateId } from "../utils/ids";
+
+/**
+ * Scenes, sequences and production shot numbers.
+ *
+ * Shots point at a scene by its number or heading, the way cast members are
+ * named. Shots in a scene are lettered in shot-list order: scene 12 holds
+ * 12A, 12B... skipping I and O, then 12AA, 12AB. Shots without a scene keep
+ * their position in the list as their number.
+ */
+
+// I and O are left out so they aren't read as 1 and 0
+const SHOT_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * "INT. ALLEY - NIGHT" becomes { location: "Alley", timeOfDay: "Night" }.
+ */
+export const parseSceneHeading = (heading: string): Pick<Scene, 'location' | 'timeOfDay'> => {
+  const body = heading.trim().replace(/^(int\.?\/ext|i\/e|int|ext|est)[. ]\s*/i, '');
+  const parts = body.split(/\s+-\s+/);
+  const titleCase = (text = '') => text.toLowerCase().replace(/(^|\s)\S/g, ch => ch.toUpperCase()).trim();
+  return {
+    location: titleCase(parts.length > 1 ? parts.slice(0, -1).join(' - ') : parts[0]),
+    timeOfDay: parts.length > 1 ? titleCase(parts[parts.length - 1]) : '',
+  };
+};
+
+export const createSequence = (name: string): Sequence => ({ id: generateId(), name });
+
+export const createScene = (number: string, heading = '', sequenceId?: string): Scene => ({
+  id: generateId(),
+  number,
+  heading,
+  ...parseSceneHeading(heading),
+  ...(sequenceId ? { sequenceId } : {}),
+});
+
+/**
+ * Finds the scene a shot points at, by number first and then by heading.
+ */
+export const findScene = (scenes: Scene[], ref: string | undefined): Scene | undefined => {
+  if (!ref?.trim()) return undefined;
+  const key = normalize(ref);
+  return scenes.find(scene => normalize(scene.number) === key)
+    ?? scenes.find(scene => scene.heading && normalize(scene.heading) === key);
+};
+
+/**
+ * One past the highest leading number in use, e.g. "13" after "12A".
+ */
+export const getNextSceneNumber = (scenes: Scene[]): string => {
+  const highest = Math.max(0, ...scenes.map(scene => parseInt(scene.number, 10)).filter(Number.isFinite));
+  return String(highest + 1);
+};
+
+export const findDuplicateSceneNumbers = (scenes: Scene[]): Set<string> => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const scene of scenes) {
+    const key = normalize(scene.number);
+    if (seen.has(key)) duplicates.add(key);
+    seen.add(key);
+  }
+  return duplicates;
+};
+
+export const isDuplicateSceneNumber = (duplicates: Set<string>, scene: Scene) => duplicates.has(normalize(scene.number));
+
+// 0 -> A, 23 -> Z, 24 -> AA
+const toShotLetters = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / SHOT_LETTERS.length)) {
+    letters = SHOT_LETTERS[(n - 1) % SHOT_LETTERS.length] + letters;
+  }
+  return letters;
+};
+
+/**
+ * Production numbers for a list of shots, in the same order.
+ */
+export const getShotNumbers = (shots: Pick<ShotConfig, 'scene'>[], scenes: Scene[]): string[] => {
+  const counts = new Map<string, number>();
+  return shots.map((shot, index) => {
+    const scene = findScene(scenes, shot.scene);
+    if (!scene) return String(index + 1);
+    const count = counts.get(scene.id) ?? 0;
+    counts.set(scene.id, count + 1);
+    // "12A" + "B" would read as scene 12, shot AB
+    const separator = /[a-z]$/i.test(scene.number) ? '-' : '';
+    return `${scene.number}${separator}${toShotLetters(count)}`;
+  });
+};
+
+/**
+ * Shot number for file names. Plain positions are padded so files sort:
+ * "7" becomes "007", "12A" stays as it is.
+ */
+export const toShotFileLabel = (number: string): string =>
+  /^\d+$/.test(number) ? number.padStart(3, '0') : number.replace(/[^a-z0-9-]+/gi, '-');
+
+/**
+ * Consecutive shots in the same scene, as the Dailies show them.
+ */
+export interface SceneGroup {
+  key: string; // Stable across renders, for collapsing
+  scene?: Scene;
+  sequence?: Sequence;
+  indices: number[]; // Positions of the shots in the list
+}
+
+export const groupShotsByScene = (
+  shots: Pick<ShotConfig, 'scene'>[],
+  scenes: Scene[],
+  sequences: Sequence[]
+): SceneGroup[] => {
+  const groups: SceneGroup[] = [];
+  const runs = new Map<string, number>();
+  shots.forEach((shot, index) => {
+    const scene = findScene(scenes, shot.scene);
+    const last = groups[groups.length - 1];
+    if (last && last.scene === scene) {
+      last.indices.push(index);
+      return;
+    }
+    // A scene that is cut back to gets a second group with its own key
+    const sceneKey = scene?.id ?? 'unassigned';
+    const run = runs.get(sceneKey) ?? 0;
+    runs.set(sceneKey, run + 1);
+    groups.push({
+      key: run === 0 ? sceneKey : `${sceneKey}:${run}`,
+      scene,
+      sequence: scene?.sequenceId ? sequences.find(sequence => sequence.id === scene.sequenceId) : undefined,
+      indices: [index],
+    });
+  });
+  return groups;
+};
+
+/**
+ * Heading shown for a scene, falling back to its number alone.
+ */
+export const describeScene = (scene: Scene): string =>
+  scene.heading ? `${scene.number} • ${scene.heading}` : `Scene ${scene.number}`;
+
+/**
+ * Scenes for a screenplay's headed scenes, numbered by position unless the
+ * script carries its own numbers, and the screenplay's shots pointed at them.
+ * A scene already in `existing` with the same number and heading is reused, so
+ * appending more of the same script doesn't duplicate it; one whose number is
+ * taken by another scene gets the next free number.
+ */
+export const createScenesFromScreenplay = <T extends Pick<ShotConfig, 'scene'>>(
+  screenplayScenes: ScreenplayScene[],
+  shots: T[],
+  existing: Scene[] = []
+): { scenes: Scene[]; shots: T[] } => {
+  const created: Scene[] = [];
+  const renumbered = new Map<string, string>();
+  for (const scene of numberScreenplayScenes(screenplayScenes)) {
+    if (!scene.heading) continue;
+    const key = normalize(scene.number!);
+    const match = [...existing, ...created].find(other => normalize(other.number) === key);
+    if (match && existing.includes(match) && normalize(match.heading) === normalize(scene.heading)) continue;
+    const number = match ? getNextSceneNumber([...existing, ...created]) : scene.number!;
+    if (match) renumbered.set(key, number);
+    created.push(createScene(number, scene.heading));
+  }
+  return {
+    scenes: created,
+    shots: shots.map(shot => {
+      const number = shot.scene && renumbered.get(normalize(shot.scene));
+      return number ? { ...shot, scene: number } : shot;
+    }),
+  };
+};
+
+/**
+ * Fills in scene numbers missing from a screenplay: the position among the
+ * headed scenes.
+ */
+export const numberScreenplayScenes = (screenplayScenes: ScreenplayScene[]): ScreenplayScene[] => {
+  let position = 0;
+  return screenplayScenes.map(scene => {
+    if (!scene.heading) return scene;
+    position++;
+    return scene.number ? scene : { ...scene, number: String(position) };
+  });
+};
+
+/**
+ * Scenes for the distinct headings in a shot list, for projects saved before
+ * scenes were entities. Shots keep pointing at them by heading.
+ */
+export const createScenesFromHeadings = (shots: Pick<ShotConfig, 'scene'>[]): Scene[] => {
+  const scenes: Scene[] = [];
+  for (const shot of shots) {
+    if (shot.scene?.trim() && !findScene(scenes, shot.scene)) {
+      scenes.push(createScene(String(scenes.length + 1), shot.scene.trim()));
+    }
+  }
+  return scenes;
+};
+
+/**
+ * Keeps shots attached to their scenes when scenes are renumbered or
+ * retitled. Returns null when no shot needed changing.
+ */
+export const updateSceneReferences = <T extends Pick<ShotConfig, 'scene'>>(
+  shots: T[],
+  before: Scene[],
+  after: Scene[]
+): T[] | null => {
+  let changed = false;
+  const next = shots.map(shot => {
+    const previous = findScene(before, shot.scene);
+    const current = previous && after.find(scene => scene.id === previous.id);
+    if (!current || findScene(after, shot.scene)?.id === current.id) return shot;
+    changed = true;
+    return { ...shot, scene: current.number };
+  });
+  return changed ? next : null;
+};
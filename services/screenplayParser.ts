@@ -0,0 +1,229 @@
+/**
+ * Parsers for screenplay formats. Both produce the same `Screenplay` shape so
+ * the shot breakdown doesn't care where a script came from.
+ */
+
+export type ScreenplayElementType = 'action' | 'character' | 'dialogue' | 'parenthetical' | 'transition';
+
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+}
+
+export interface ScreenplayScene {
+  heading: string; // e.g. "INT. ALLEY - NIGHT"
+  number?: string; // Scene number when the script carries one
+  elements: ScreenplayElement[];
+}
+
+export interface Screenplay {
+  title?: string;
+  scenes: ScreenplayScene[];
+  characters: string[]; // Speaking characters, in order of first appearance
+}
+
+export type ScreenplayFormat = 'fountain' | 'fdx';
+
+const SCENE_HEADING = /^(int|ext|est|int\.?\/ext|i\/e)[. ]/i;
+const SCENE_NUMBER = /\s*#([\w.-]+)#\s*$/;
+const CHARACTER_EXTENSION = /\s*(\(.*\)|\^)\s*$/;
+
+/**
+ * Turns "JOHN (V.O.)" into "John" so names read naturally in the cast panel.
+ */
+export const normalizeCharacterName = (raw: string): string => {
+  let name = raw.trim().replace(/^@/, '');
+  while (CHARACTER_EXTENSION.test(name)) {
+    name = name.replace(CHARACTER_EXTENSION, '');
+  }
+  return name
+    .toLowerCase()
+    .replace(/(^|[\s'-])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+};
+
+const buildScreenplay = (scenes: ScreenplayScene[], title?: string): Screenplay => {
+  const characters: string[] = [];
+  for (const scene of scenes) {
+    for (const element of scene.elements) {
+      if (element.type === 'character' && !characters.includes(element.text)) {
+        characters.push(element.text);
+      }
+    }
+  }
+  return { title, scenes, characters };
+};
+
+const isUpperCaseLine = (line: string) => /\p{L}/u.test(line) && line === line.toUpperCase();
+
+/**
+ * Parses a Fountain screenplay (https://fountain.io). Covers the elements that
+ * matter for a shot breakdown; formatting such as emphasis is left as-is.
+ */
+export const parseFountain = (source: string): Screenplay => {
+  const text = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '') // Boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, ''); // Notes
+
+  const lines = text.split('\n');
+  let index = 0;
+  let title: string | undefined;
+
+  // Title page: "Key: value" lines up to the first blank line
+  if (/^[\w ]+:/.test(lines[0] ?? '')) {
+    let currentKey = '';
+    while (index < lines.length && lines[index].trim() !== '') {
+      const match = lines[index].match(/^([\w ]+):\s*(.*)$/);
+      if (match) {
+        currentKey = match[1].toLowerCase();
+        if (currentKey === 'title' && match[2]) title = match[2].trim();
+      } else if (currentKey === 'title' && !title) {
+        title = lines[index].trim();
+      }
+      index++;
+    }
+  }
+
+  const scenes: ScreenplayScene[] = [];
+  // Anything before the first heading goes into an untitled scene
+  let scene: ScreenplayScene = { heading: '', elements: [] };
+  let actionBuffer: string[] = [];
+
+  const flushAction = () => {
+    const action = actionBuffer.join(' ').replace(/\s+/g, ' ').trim();
+    if (action) scene.elements.push({ type: 'action', text: action });
+    actionBuffer = [];
+  };
+
+  for (; index < lines.length; index++) {
+    const raw = lines[index];
+    const line = raw.trim();
+    const prevBlank = index === 0 || lines[index - 1].trim() === '';
+    const next = lines[index + 1]?.trim() ?? '';
+
+    if (line === '') {
+      flushAction();
+      continue;
+    }
+
+    // Sections, synopses and page breaks carry no story content
+    if (/^#/.test(line) || /^=(?!==)/.test(line) || /^===+$/.test(line)) {
+      continue;
+    }
+
+    // Scene heading (forced with a leading ".")
+    if (prevBlank && (SCENE_HEADING.test(line) || /^\.[^.]/.test(line))) {
+      flushAction();
+      if (scene.heading || scene.elements.length > 0) scenes.push(scene);
+      const numberMatch = line.match(SCENE_NUMBER);
+      const heading = line.replace(SCENE_NUMBER, '').replace(/^\./, '').trim().toUpperCase();
+      scene = { heading, number: numberMatch?.[1], elements: [] };
+      continue;
+    }
+
+    // Transition ("CUT TO:" or forced with ">"), but not centered text "> text <"
+    if (prevBlank && next === '' && ((isUpperCaseLine(line) && line.endsWith('TO:')) || (/^>/.test(line) && !/<$/.test(line)))) {
+      flushAction();
+      scene.elements.push({ type: 'transition', text: line.replace(/^>\s*/, '') });
+      continue;
+    }
+
+    // Character cue followed by dialogue (forced with "@")
+    const isForcedCharacter = /^@/.test(line);
+    if (prevBlank && next !== '' && !/^!/.test(line) && (isForcedCharacter || isUpperCaseLine(line))) {
+      flushAction();
+      scene.elements.push({ type: 'character', text: normalizeCharacterName(line) });
+      index++;
+      const dialogue: string[] = [];
+      const flushDialogue = () => {
+        if (dialogue.length > 0) scene.elements.push({ type: 'dialogue', text: dialogue.join(' ') });
+        dialogue.length = 0;
+      };
+      while (index < lines.length && lines[index].trim() !== '') {
+        const dialogueLine = lines[index].trim();
+        if (/^\(.*\)$/.test(dialogueLine)) {
+          flushDialogue();
+          scene.elements.push({ type: 'parenthetical', text: dialogueLine });
+        } else {
+          dialogue.push(dialogueLine);
+        }
+        index++;
+      }
+      flushDialogue();
+      continue;
+    }
+
+    actionBuffer.push(raw.replace(/^!/, ''));
+  }
+
+  flushAction();
+  if (scene.heading || scene.elements.length > 0) scenes.push(scene);
+
+  return buildScreenplay(scenes, title);
+};
+
+const FDX_TYPES: Record<string, ScreenplayElementType | 'scene'> = {
+  'Scene Heading': 'scene',
+  'Action': 'action',
+  'General': 'action',
+  'Shot': 'action',
+  'Character': 'character',
+  'Dialogue': 'dialogue',
+  'Parenthetical': 'parenthetical',
+  'Transition': 'transition',
+};
+
+/**
+ * Parses a Final Draft (.fdx) XML document.
+ */
+export const parseFdx = (source: string): Screenplay => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The Final Draft file is not valid XML.");
+  }
+  const content = doc.querySelector('FinalDraft > Content');
+  if (!content) {
+    throw new Error("The Final Draft file has no script content.");
+  }
+
+  const scenes: ScreenplayScene[] = [];
+  let scene: ScreenplayScene = { heading: '', elements: [] };
+
+  for (const paragraph of Array.from(content.children)) {
+    if (paragraph.tagName !== 'Paragraph') continue;
+    const type = FDX_TYPES[paragraph.getAttribute('Type') ?? ''];
+    const text = Array.from(paragraph.getElementsByTagName('Text'))
+      .map(node => node.textContent ?? '')
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!type || !text) continue;
+
+    if (type === 'scene') {
+      if (scene.heading || scene.elements.length > 0) scenes.push(scene);
+      scene = { heading: text.toUpperCase(), number: paragraph.getAttribute('Number') ?? undefined, elements: [] };
+    } else if (type === 'character') {
+      scene.elements.push({ type, text: normalizeCharacterName(text) });
+    } else {
+      scene.elements.push({ type, text });
+    }
+  }
+  if (scene.heading || scene.elements.length > 0) scenes.push(scene);
+
+  const title = doc.querySelector('TitlePage Paragraph Text')?.textContent?.trim() || undefined;
+  return buildScreenplay(scenes, title);
+};
+
+/**
+ * Picks a parser from the file name. Returns null for non-screenplay files.
+ */
+export const detectScreenplayFormat = (fileName: string): ScreenplayFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'fdx') return 'fdx';
+  if (extension === 'fountain' || extension === 'spmd') return 'fountain';
+  return null;
+};
+
+export const parseScreenplay = (source: string, format: ScreenplayFormat): Screenplay => {
+  return format === 'fdx' ? parseFdx(source) : parseFountain(source);
+};
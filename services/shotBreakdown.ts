@@ -0,0 +1,134 @@
+import { ShotConfig, ShotType } from "../types";
+import { Screenplay, ScreenplayScene } from "./screenplayParser";
+import { DEFAULT_ASPECT_RATIO } from "./shotListSchema";
+import { breakdownSceneWithGemini, isApiKeyAvailable } from "./geminiService";
+
+/**
+ * Turns a parsed screenplay into a draft shot list. Strategies are picked by
+ * the user in the import dialog.
+ */
+export interface ShotBreakdownStrategy {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  breakdown: (screenplay: Screenplay) => Promise<ShotConfig[]>;
+}
+
+// Ordered from most to least specific; the first match wins
+const SHOT_TYPE_CUES: [RegExp, ShotType][] = [
+  [/\b(pov|point of view)\b/i, ShotType.POV],
+  [/\b(insert|close on (?:a|the|his|her|their) (?:hand|phone|screen|note|letter|key|watch|photo))\b/i, ShotType.INSERT],
+  [/\b(eyes|tears?|lips|face|close on|close-up|closeup)\b/i, ShotType.CLOSE_UP],
+  [/\b(looks up at|towers? over|towering|looms?)\b/i, ShotType.LOW_ANGLE],
+  [/\b(looks down at|from above|below them)\b/i, ShotType.HIGH_ANGLE],
+  [/\b(skyline|landscape|horizon|aerial|overhead)\b/i, ShotType.EXTREME_WIDE],
+  [/\b(crowd|street|room|hall|alley|field)\b/i, ShotType.WIDE],
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findMentionedCharacters = (text: string, characters: string[]): string[] => {
+  return characters.filter(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text));
+};
+
+const pickShotType = (text: string, characterCount: number): ShotType => {
+  for (const [pattern, type] of SHOT_TYPE_CUES) {
+    if (pattern.test(text)) return type;
+  }
+  return characterCount >= 2 ? ShotType.TWO_SHOT : ShotType.MEDIUM;
+};
+
+/**
+ * "EXT. ROOFTOP - NIGHT" becomes { location: "rooftop", time: "night", exterior: true }.
+ */
+const describeHeading = (heading: string) => {
+  const exterior = /^(ext|est)/i.test(heading);
+  const body = heading.replace(/^(int\.?\/ext|i\/e|int|ext|est)[. ]\s*/i, '');
+  const [location, time] = body.split(/\s+-\s+/);
+  return {
+    exterior,
+    location: (location || 'the location').toLowerCase(),
+    time: time?.toLowerCase(),
+  };
+};
+
+// Shots point at their scene by number when the screenplay has been numbered
+const sceneRef = (scene: ScreenplayScene): Pick<ShotConfig, 'scene'> =>
+  scene.heading ? { scene: scene.number ?? scene.heading } : {};
+
+const breakdownSceneHeuristically = (scene: ScreenplayScene, characters: string[]): ShotConfig[] => {
+  const shots: ShotConfig[] = [];
+  const { exterior, location, time } = describeHeading(scene.heading);
+  const makeShot = (shot_type: ShotType, prompt: string, shotCharacters: string[]): ShotConfig => ({
+    shot_type,
+    aspect_ratio: DEFAULT_ASPECT_RATIO,
+    prompt,
+    characters: shotCharacters,
+    ...sceneRef(scene),
+  });
+
+  const actions = scene.elements.filter(e => e.type === 'action');
+  const opening = actions[0]?.text ?? '';
+
+  // Open each scene with an establishing shot
+  if (scene.heading) {
+    shots.push(makeShot(
+      exterior ? ShotType.EXTREME_WIDE : ShotType.WIDE,
+      `Establishing shot of ${location}${time ? `, ${time}` : ''}. ${opening}`.trim(),
+      findMentionedCharacters(opening, characters)
+    ));
+  }
+
+  let speaker: string | null = null;
+  let lastSpeaker: string | null = null;
+  scene.elements.forEach((element, i) => {
+    if (element.type === 'action') {
+      // The opening action is already covered by the establishing shot
+      if (scene.heading && i === scene.elements.indexOf(actions[0])) return;
+      const mentioned = findMentionedCharacters(element.text, characters);
+      shots.push(makeShot(pickShotType(element.text, mentioned.length), element.text, mentioned));
+    } else if (element.type === 'character') {
+      speaker = element.text;
+    } else if (element.type === 'dialogue' && speaker) {
+      // One coverage shot per change of speaker
+      if (speaker !== lastSpeaker) {
+        const line = element.text.length > 140 ? `${element.text.slice(0, 137)}...` : element.text;
+        shots.push(makeShot(ShotType.MEDIUM_CLOSE_UP, `${speaker} speaking in ${location}: "${line}"`, [speaker]));
+      }
+      lastSpeaker = speaker;
+    }
+  });
+
+  return shots;
+};
+
+export const heuristicBreakdown: ShotBreakdownStrategy = {
+  id: 'heuristic',
+  label: 'Heuristic (offline)',
+  isAvailable: () => true,
+  breakdown: async (screenplay) =>
+    screenplay.scenes.flatMap(scene => breakdownSceneHeuristically(scene, screenplay.characters)),
+};
+
+export const geminiBreakdown: ShotBreakdownStrategy = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  isAvailable: isApiKeyAvailable,
+  breakdown: async (screenplay) => {
+    const shots: ShotConfig[] = [];
+    // Scene by scene keeps each request small and lets headings link back reliably
+    for (const scene of screenplay.scenes) {
+      const sceneShots = await breakdownSceneWithGemini(scene, screenplay.characters);
+      shots.push(...sceneShots.map(shot => ({
+        shot_type: shot.shot_type,
+        aspect_ratio: DEFAULT_ASPECT_RATIO,
+        prompt: shot.prompt,
+        characters: shot.characters,
+        ...sceneRef(scene),
+      })));
+    }
+    return shots;
+  },
+};
+
+export const BREAKDOWN_STRATEGIES: ShotBreakdownStrategy[] = [heuristicBreakdown, geminiBreakdown];
@@ -0,0 +1,449 @@
+import {
+  AspectRatio,
+  CameraAngle,
+  CameraHeight,
+  CameraMovement,
+  DepthOfField,
+  GeneratedShot,
+  LightingKey,
+  ReferenceAngle,
+  Scene,
+  ShotConfig,
+  ShotType,
+} from "../types";
+import { JsonNode, JsonSyntaxError, offsetToLineColumn, parseJsonAst } from "../utils/jsonAst";
+import { generateId } from "../utils/ids";
+import { renderTemplate, TemplateVariables } from "./promptTemplate";
+import { findScene } from "./sceneService";
+import { isMovingShot, MAX_LENS_MM, MIN_LENS_MM } from "./cameraService";
+
+/**
+ * Shot list file format.
+ *
+ * v1: a bare array of shots with free-text `shot_type` and `aspect_ratio`.
+ * v2: `{ "version": 2, "shots": [...] }` with enum values, an optional
+ *     unique `id`, optional `aspect_ratio` (defaults to 16:9), optional
+ *     `characters`, an optional `scene` number or heading, an optional
+ *     `style` preset name, an
+ *     optional animatic `duration` in seconds and optional `references`,
+ *     the reference angles to send (all of them when omitted).
+ *     An optional `camera` object holds `lens_mm`, `height`, `angle`,
+ *     `movement`, `depth_of_field` and `lighting`; `end_frame: true` also
+ *     renders the last frame of a moving shot.
+ *     `prompt` may use the template syntax in promptTemplate.ts.
+ *
+ * v1 files are still accepted; common shorthand such as "CU" or "2.35:1" is
+ * mapped onto the v2 enums, and `serializeShotList` writes the upgraded form.
+ */
+export const SHOT_LIST_VERSION = 2;
+
+export const DEFAULT_ASPECT_RATIO = AspectRatio.WIDESCREEN;
+
+const MAX_SHOT_DURATION = 600;
+
+export interface ShotListIssue {
+  message: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface ShotListParseResult {
+  ok: boolean;
+  shots: ShotConfig[]; // Empty unless ok
+  version: number | null; // Source format version, when it could be determined
+  issues: ShotListIssue[];
+}
+
+export interface ShotListValidationOptions {
+  castNames?: string[]; // When given, `characters` entries must name a cast member
+  styleNames?: string[]; // When given, `style` must name a style preset
+  variables?: TemplateVariables; // When given, prompt templates must only use these
+  scenes?: Scene[]; // When given, `scene` must name one of these by number or heading
+}
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+const SHOT_TYPE_LOOKUP = new Map(Object.values(ShotType).map(v => [normalizeKey(v), v]));
+const ASPECT_RATIO_LOOKUP = new Map(Object.values(AspectRatio).map(v => [normalizeKey(v), v]));
+const REFERENCE_ANGLE_LOOKUP = new Map(Object.values(ReferenceAngle).map(v => [normalizeKey(v), v]));
+
+const enumLookup = <T extends string>(values: T[]) => new Map(values.map(v => [normalizeKey(v), v]));
+
+// Shorthand accepted when migrating v1 files
+const LEGACY_SHOT_TYPES: Record<string, ShotType> = {
+  'ews': ShotType.EXTREME_WIDE,
+  'xws': ShotType.EXTREME_WIDE,
+  'establishing shot': ShotType.EXTREME_WIDE,
+  'ws': ShotType.WIDE,
+  'wide': ShotType.WIDE,
+  'ls': ShotType.WIDE,
+  'long shot': ShotType.WIDE,
+  'fs': ShotType.FULL,
+  'mws': ShotType.MEDIUM_WIDE,
+  'cowboy shot': ShotType.MEDIUM_WIDE,
+  'ms': ShotType.MEDIUM,
+  'medium': ShotType.MEDIUM,
+  'mcu': ShotType.MEDIUM_CLOSE_UP,
+  'cu': ShotType.CLOSE_UP,
+  'closeup': ShotType.CLOSE_UP,
+  'close up shot': ShotType.CLOSE_UP,
+  'ecu': ShotType.EXTREME_CLOSE_UP,
+  'xcu': ShotType.EXTREME_CLOSE_UP,
+  'ots': ShotType.OVER_THE_SHOULDER,
+  'over the shoulder shot': ShotType.OVER_THE_SHOULDER,
+  'point of view': ShotType.POV,
+  'low angle shot': ShotType.LOW_ANGLE,
+  'high angle shot': ShotType.HIGH_ANGLE,
+  'dutch': ShotType.DUTCH_ANGLE,
+  'birds eye': ShotType.AERIAL,
+  'bird\'s eye': ShotType.AERIAL,
+};
+
+const LEGACY_ASPECT_RATIOS: Record<string, AspectRatio> = {
+  '1.78:1': AspectRatio.WIDESCREEN,
+  '1.33:1': AspectRatio.ACADEMY,
+  '2.35:1': AspectRatio.SCOPE,
+  '2.4:1': AspectRatio.SCOPE,
+  '2.40:1': AspectRatio.SCOPE,
+  '16/9': AspectRatio.WIDESCREEN,
+  '9/16': AspectRatio.VERTICAL,
+};
+
+interface FieldContext {
+  version: number;
+  options: ShotListValidationOptions;
+  report: (message: string, node: JsonNode) => void;
+  ids: Set<string>; // Shot ids seen so far, to catch duplicates
+}
+
+interface FieldSpec {
+  required: boolean;
+  read: (node: JsonNode, ctx: FieldContext) => unknown;
+}
+
+const readEnum = <T extends string>(
+  field: string,
+  lookup: Map<string, T>,
+  legacy: Record<string, T>
+) => (node: JsonNode, ctx: FieldContext): T | undefined => {
+  if (node.kind !== 'string') {
+    ctx.report(`'${field}' must be a string`, node);
+    return undefined;
+  }
+  const key = normalizeKey(node.value);
+  const value = lookup.get(key) ?? (ctx.version < 2 ? legacy[key] : undefined);
+  if (!value) {
+    ctx.report(`Unknown ${field} "${node.value}". Expected one of: ${Array.from(lookup.values()).join(', ')}`, node);
+  }
+  return value;
+};
+
+// Sub-fields of `camera`. There is no v1 shorthand for these.
+const CAMERA_FIELDS: Record<string, FieldSpec['read']> = {
+  lens_mm: (node, ctx) => {
+    if (node.kind !== 'number' || node.value < MIN_LENS_MM || node.value > MAX_LENS_MM) {
+      ctx.report(`'camera.lens_mm' must be a focal length between ${MIN_LENS_MM} and ${MAX_LENS_MM}`, node);
+      return undefined;
+    }
+    return node.value;
+  },
+  height: readEnum('camera.height', enumLookup(Object.values(CameraHeight)), {}),
+  angle: readEnum('camera.angle', enumLookup(Object.values(CameraAngle)), {}),
+  movement: readEnum('camera.movement', enumLookup(Object.values(CameraMovement)), {}),
+  depth_of_field: readEnum('camera.depth_of_field', enumLookup(Object.values(DepthOfField)), {}),
+  lighting: readEnum('camera.lighting', enumLookup(Object.values(LightingKey)), {}),
+};
+
+const SHOT_FIELDS: Record<string, FieldSpec> = {
+  id: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'string' || !node.value.trim()) {
+        ctx.report(`'id' must be a non-empty string`, node);
+        return undefined;
+      }
+      if (ctx.ids.has(node.value)) {
+        ctx.report(`Shot id "${node.value}" is used twice`, node);
+      }
+      ctx.ids.add(node.value);
+      return node.value;
+    },
+  },
+  shot_type: {
+    required: true,
+    read: readEnum('shot_type', SHOT_TYPE_LOOKUP, LEGACY_SHOT_TYPES),
+  },
+  aspect_ratio: {
+    required: false,
+    read: readEnum('aspect_ratio', ASPECT_RATIO_LOOKUP, LEGACY_ASPECT_RATIOS),
+  },
+  prompt: {
+    required: true,
+    read: (node, ctx) => {
+      if (node.kind !== 'string' || !node.value.trim()) {
+        ctx.report(`'prompt' must be a non-empty string`, node);
+        return undefined;
+      }
+      if (ctx.options.variables) {
+        for (const problem of renderTemplate(node.value, ctx.options.variables).problems) {
+          ctx.report(problem, node);
+        }
+      }
+      return node.value;
+    },
+  },
+  characters: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'array') {
+        ctx.report(`'characters' must be an array of cast member names`, node);
+        return undefined;
+      }
+      const castNames = ctx.options.castNames && new Set(ctx.options.castNames.map(normalizeKey));
+      const seen = new Set<string>();
+      const names: string[] = [];
+      for (const item of node.items) {
+        if (item.kind !== 'string' || !item.value.trim()) {
+          ctx.report(`Character names must be non-empty strings`, item);
+          continue;
+        }
+        const key = normalizeKey(item.value);
+        if (seen.has(key)) {
+          ctx.report(`Character "${item.value}" is listed twice`, item);
+        } else if (castNames && !castNames.has(key)) {
+          ctx.report(`Character "${item.value}" is not in the cast`, item);
+        }
+        seen.add(key);
+        names.push(item.value);
+      }
+      return names;
+    },
+  },
+  scene: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'string') {
+        ctx.report(`'scene' must be a scene number or heading string`, node);
+        return undefined;
+      }
+      const scenes = ctx.options.scenes;
+      if (scenes && node.value.trim() && !findScene(scenes, node.value)) {
+        ctx.report(`Scene "${node.value}" is not in the scene list`, node);
+      }
+      return node.value.trim() || undefined;
+    },
+  },
+  style: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'string' || !node.value.trim()) {
+        ctx.report(`'style' must be the name of a style preset`, node);
+        return undefined;
+      }
+      const styleNames = ctx.options.styleNames;
+      if (styleNames && !styleNames.some(name => normalizeKey(name) === normalizeKey(node.value))) {
+        ctx.report(`Style "${node.value}" is not a preset. Available: ${styleNames.join(', ')}`, node);
+      }
+      return node.value;
+    },
+  },
+  duration: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'number' || !(node.value > 0) || node.value > MAX_SHOT_DURATION) {
+        ctx.report(`'duration' must be a number of seconds between 0 and ${MAX_SHOT_DURATION}`, node);
+        return undefined;
+      }
+      return node.value;
+    },
+  },
+  references: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'array' || node.items.length === 0) {
+        ctx.report(`'references' must be a non-empty array of reference angles`, node);
+        return undefined;
+      }
+      const angles: ReferenceAngle[] = [];
+      for (const item of node.items) {
+        if (item.kind !== 'string') {
+          ctx.report(`Reference angles must be strings`, item);
+          continue;
+        }
+        const angle = REFERENCE_ANGLE_LOOKUP.get(normalizeKey(item.value));
+        if (!angle) {
+          ctx.report(`Unknown reference angle "${item.value}". Expected one of: ${Object.values(ReferenceAngle).join(', ')}`, item);
+        } else if (angles.includes(angle)) {
+          ctx.report(`Reference angle "${angle}" is listed twice`, item);
+        } else {
+          angles.push(angle);
+        }
+      }
+      return angles;
+    },
+  },
+  camera: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'object') {
+        ctx.report(`'camera' must be an object of camera settings`, node);
+        return undefined;
+      }
+      const camera: Record<string, unknown> = {};
+      for (const prop of node.properties) {
+        const read = CAMERA_FIELDS[prop.key];
+        if (!read) {
+          ctx.report(`Unknown camera field '${prop.key}'. Expected one of: ${Object.keys(CAMERA_FIELDS).join(', ')}`, prop.value);
+          continue;
+        }
+        const value = read(prop.value, ctx);
+        if (value !== undefined) camera[prop.key] = value;
+      }
+      return Object.keys(camera).length > 0 ? camera : undefined;
+    },
+  },
+  end_frame: {
+    required: false,
+    read: (node, ctx) => {
+      if (node.kind !== 'boolean') {
+        ctx.report(`'end_frame' must be true or false`, node);
+        return undefined;
+      }
+      return node.value || undefined;
+    },
+  },
+};
+
+/**
+ * Parses and validates shot list text. Every problem found is reported with
+ * its line and column so the editor can point at it.
+ */
+export const parseShotList = (
+  text: string,
+  options: ShotListValidationOptions = {}
+): ShotListParseResult => {
+  const issues: ShotListIssue[] = [];
+  const reportAt = (message: string, offset: number) => {
+    issues.push({ message, offset, ...offsetToLineColumn(text, offset) });
+  };
+  const report = (message: string, node: JsonNode) => reportAt(message, node.start);
+
+  let root: JsonNode;
+  try {
+    root = parseJsonAst(text);
+  } catch (e) {
+    if (e instanceof JsonSyntaxError) {
+      reportAt(e.message, e.offset);
+      return { ok: false, shots: [], version: null, issues };
+    }
+    throw e;
+  }
+
+  // Locate the shots array and the format version
+  let version: number;
+  let shotsNode: JsonNode | undefined;
+  if (root.kind === 'array') {
+    version = 1;
+    shotsNode = root;
+  } else if (root.kind === 'object') {
+    const versionProp = root.properties.find(p => p.key === 'version');
+    if (!versionProp || versionProp.value.kind !== 'number' || !Number.isInteger(versionProp.value.value)) {
+      report(`Shot list must have an integer 'version' (current version is ${SHOT_LIST_VERSION})`, versionProp?.value ?? root);
+      return { ok: false, shots: [], version: null, issues };
+    }
+    version = versionProp.value.value;
+    if (version < 2 || version > SHOT_LIST_VERSION) {
+      report(`Unsupported shot list version ${version}. This app reads versions 1 to ${SHOT_LIST_VERSION}`, versionProp.value);
+      return { ok: false, shots: [], version: null, issues };
+    }
+    for (const prop of root.properties) {
+      if (prop.key !== 'version' && prop.key !== 'shots') {
+        reportAt(`Unknown top-level field '${prop.key}'`, prop.keyStart);
+      }
+    }
+    shotsNode = root.properties.find(p => p.key === 'shots')?.value;
+    if (!shotsNode) {
+      report(`Missing 'shots' array`, root);
+      return { ok: false, shots: [], version: null, issues };
+    }
+  } else {
+    report(`Shot list must be an object with 'version' and 'shots', or an array of shots`, root);
+    return { ok: false, shots: [], version: null, issues };
+  }
+
+  if (shotsNode.kind !== 'array') {
+    report(`'shots' must be an array of shot objects`, shotsNode);
+    return { ok: false, shots: [], version: null, issues };
+  }
+  if (shotsNode.items.length === 0) {
+    report(`Shot list is empty`, shotsNode);
+  }
+
+  const ctx: FieldContext = { version, options, report, ids: new Set() };
+  const shots: ShotConfig[] = [];
+
+  shotsNode.items.forEach((shotNode, index) => {
+    if (shotNode.kind !== 'object') {
+      report(`Shot #${index + 1} must be an object`, shotNode);
+      return;
+    }
+    const shot: Record<string, unknown> = { aspect_ratio: DEFAULT_ASPECT_RATIO };
+    for (const prop of shotNode.properties) {
+      const spec = SHOT_FIELDS[prop.key];
+      if (!spec) {
+        reportAt(`Unknown field '${prop.key}' in shot #${index + 1}`, prop.keyStart);
+        continue;
+      }
+      const value = spec.read(prop.value, ctx);
+      if (value !== undefined) shot[prop.key] = value;
+    }
+    for (const [field, spec] of Object.entries(SHOT_FIELDS)) {
+      if (spec.required && !shotNode.properties.some(p => p.key === field)) {
+        report(`Shot #${index + 1} is missing required field '${field}'`, shotNode);
+      }
+    }
+    const endFrame = shotNode.properties.find(p => p.key === 'end_frame');
+    if (endFrame && shot.end_frame && !isMovingShot(shot)) {
+      report(`'end_frame' needs a moving camera; set 'camera.movement' to something other than Static`, endFrame.value);
+    }
+    shots.push(shot as unknown as ShotConfig);
+  });
+
+  if (issues.length > 0) {
+    issues.sort((a, b) => a.offset - b.offset);
+    return { ok: false, shots: [], version, issues };
+  }
+  return { ok: true, shots, version, issues };
+};
+
+/**
+ * Writes shots in the current file format.
+ */
+export const serializeShotList = (shots: ShotConfig[]): string => {
+  return JSON.stringify({ version: SHOT_LIST_VERSION, shots }, null, 2);
+};
+
+/**
+ * Strips the generation state from a shot, leaving the config it was made from.
+ */
+export const toShotConfig = (shot: GeneratedShot): ShotConfig => {
+  const { takes, circledTakeId, status, error, failure, review, ...config } = shot;
+  return config;
+};
+
+/**
+ * Gives every shot an id, listed first. A shot without one takes the id at
+ * its position in `previousIds` when no other shot uses it, so shots written
+ * before ids existed keep their takes.
+ */
+export const assignShotIds = (shots: ShotConfig[], previousIds: string[] = []): ShotConfig[] => {
+  const used = new Set(shots.flatMap(shot => (shot.id ? [shot.id] : [])));
+  return shots.map((shot, index) => {
+    if (shot.id) return shot;
+    const previous = previousIds[index];
+    const id = previous && !used.has(previous) ? previous : generateId();
+    used.add(id);
+    return { id, ...shot };
+  });
+};
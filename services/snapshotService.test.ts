@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { AspectRatio, CameraHeight, ShotType, SnapshotShot } from '../types';
+import { diffSnapshots, isSameRender } from './snapshotService';
+
+const shot = (id: string, prompt = `Shot ${id}`, changes: Partial<SnapshotShot> = {}): SnapshotShot => ({
+  id,
+  prompt,
+  shot_type: ShotType.WIDE,
+  aspect_ratio: AspectRatio.WIDESCREEN,
+  ...changes,
+});
+
+const summarize = (before: SnapshotShot[], after: SnapshotShot[]) =>
+  diffSnapshots(before, after).map(diff =>
+    [(diff.after ?? diff.before)!.id, diff.kind, diff.isMoved ? 'moved' : '', ...diff.changes].filter(Boolean).join(' ')
+  );
+
+describe('diffSnapshots', () => {
+  it('reports unchanged shots', () => {
+    const shots = [shot('a'), shot('b')];
+    expect(summarize(shots, shots)).toEqual(['a unchanged', 'b unchanged']);
+  });
+
+  it('follows the newer order and keeps removed shots after the shot they followed', () => {
+    const before = [shot('a'), shot('b'), shot('c')];
+    const after = [shot('a'), shot('c'), shot('d')];
+    expect(summarize(before, after)).toEqual(['a unchanged', 'b removed', 'c unchanged', 'd added']);
+  });
+
+  it('puts shots removed from the top first', () => {
+    expect(summarize([shot('a'), shot('b')], [shot('b')])).toEqual(['a removed', 'b unchanged']);
+  });
+
+  it('marks only the shots that left their relative order as moved', () => {
+    const before = [shot('a'), shot('b'), shot('c'), shot('d')];
+    const after = [shot('d'), shot('a'), shot('b'), shot('c')];
+    expect(summarize(before, after)).toEqual(['d unchanged moved', 'a unchanged', 'b unchanged', 'c unchanged']);
+  });
+
+  it('labels the fields that changed', () => {
+    const before = [shot('a', 'A man waits', { camera: { lens_mm: 35 } })];
+    const after = [shot('a', 'A man runs', { camera: { lens_mm: 85 }, duration: 4 })];
+    expect(summarize(before, after)).toEqual(['a changed Prompt Camera Duration']);
+  });
+});
+
+describe('isSameRender', () => {
+  it('ignores duration, ids and key order', () => {
+    const a = shot('a', 'Rain', { camera: { lens_mm: 35, height: CameraHeight.EYE } });
+    const b = shot('b', 'Rain', { camera: { height: CameraHeight.EYE, lens_mm: 35 }, duration: 6 });
+    expect(isSameRender(a, b)).toBe(true);
+  });
+
+  it('counts a reworded prompt as a change', () => {
+    expect(isSameRender(shot('a', 'Rain'), shot('a', 'Heavy rain'))).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { GeneratedShot, ProjectSnapshot, Scene, ShotConfig, SnapshotShot } from "../types";
+import { generateId } from "../utils/ids";
+import { getPrimaryTake } from "./takeService";
+
+export type ShotChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ShotDiff {
+  kind: ShotChangeKind;
+  before?: SnapshotShot;
+  after?: SnapshotShot;
+  isMoved: boolean; // Kept, but its order relative to the other kept shots changed
+  changes: string[]; // Labels of the fields that differ
+}
+
+// Fields compared between revisions, with their labels. Duration only
+// affects the animatic, so it doesn't call for a new frame.
+const FIELD_LABELS: Record<Exclude<keyof ShotConfig, 'id'>, string> = {
+  prompt: 'Prompt',
+  shot_type: 'Shot type',
+  aspect_ratio: 'Aspect ratio',
+  characters: 'Characters',
+  scene: 'Scene',
+  style: 'Style',
+  references: 'References',
+  camera: 'Camera',
+  end_frame: 'End frame',
+  duration: 'Duration',
+};
+
+const RENDER_FIELDS = (Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[]).filter(field => field !== 'duration');
+
+// JSON with sorted keys, so objects compare by content
+const stableJson = (value: unknown): string => JSON.stringify(value, (_, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.keys(v).sort().map(key => [key, v[key]]))
+    : v
+);
+
+const differs = (a: ShotConfig, b: ShotConfig, field: keyof typeof FIELD_LABELS) =>
+  stableJson(a[field] ?? null) !== stableJson(b[field] ?? null);
+
+/**
+ * Whether two revisions of a shot would be rendered the same way. Prompt
+ * snippets, styles and cast references are looked up by name, so edits to
+ * those don't count.
+ */
+export const isSameRender = (a: ShotConfig, b: ShotConfig): boolean =>
+  RENDER_FIELDS.every(field => !differs(a, b, field));
+
+/**
+ * The shot list with the frame each shot has in the Dailies.
+ */
+export const toSnapshotShots = (configs: ShotConfig[], dailies: GeneratedShot[]): SnapshotShot[] =>
+  configs.map(config => {
+    const shot = dailies.find(s => s.id === config.id);
+    const take = shot && getPrimaryTake(shot);
+    return { ...config, id: config.id ?? generateId(), ...(take ? { take } : {}) };
+  });
+
+export const createSnapshot = (name: string, configs: ShotConfig[], dailies: GeneratedShot[], scenes: Scene[]): ProjectSnapshot => ({
+  id: generateId(),
+  name,
+  createdAt: Date.now(),
+  shots: toSnapshotShots(configs, dailies),
+  scenes,
+});
+
+// Ids kept in both lists whose relative order is unchanged (longest common subsequence)
+const findSteadyIds = (before: string[], after: string[]): Set<string> => {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const steady = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      steady.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return steady;
+};
+
+/**
+ * Compares two revisions of the shot list, matching shots by id. Entries
+ * follow the newer order; removed shots sit after the shot they followed.
+ */
+export const diffSnapshots = (before: SnapshotShot[], after: SnapshotShot[]): ShotDiff[] => {
+  const beforeById = new Map(before.map(shot => [shot.id, shot]));
+  const afterIds = new Set(after.map(shot => shot.id));
+  const keptBefore = before.filter(shot => afterIds.has(shot.id)).map(shot => shot.id);
+  const keptAfter = after.filter(shot => beforeById.has(shot.id)).map(shot => shot.id);
+  const steady = findSteadyIds(keptBefore, keptAfter);
+
+  // Removed shots, keyed by the id of the kept shot before them
+  const removedAfter = new Map<string | null, SnapshotShot[]>();
+  let anchor: string | null = null;
+  for (const shot of before) {
+    if (afterIds.has(shot.id)) {
+      anchor = shot.id;
+    } else {
+      removedAfter.set(anchor, [...(removedAfter.get(anchor) ?? []), shot]);
+    }
+  }
+  const toRemoved = (shots: SnapshotShot[] = []): ShotDiff[] =>
+    shots.map(shot => ({ kind: 'removed', before: shot, isMoved: false, changes: [] }));
+
+  const diffs: ShotDiff[] = toRemoved(removedAfter.get(null));
+  for (const shot of after) {
+    const previous = beforeById.get(shot.id);
+    if (!previous) {
+      diffs.push({ kind: 'added', after: shot, isMoved: false, changes: [] });
+      continue;
+    }
+    const changes = (Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[])
+      .filter(field => differs(previous, shot, field))
+      .map(field => FIELD_LABELS[field]);
+    diffs.push({
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      before: previous,
+      after: shot,
+      isMoved: !steady.has(shot.id),
+      changes,
+    });
+    diffs.push(...toRemoved(removedAfter.get(shot.id)));
+  }
+  return diffs;
+};
@@ -0,0 +1,268 @@
+import { GeneratedShot, Scene } from "../types";
+import { canvasToBlob, drawImageContain, drawWrappedText, loadImage } from "../utils/canvas";
+import { createImagePdf, PdfImagePage } from "../utils/pdfWriter";
+import { getPrimaryTake } from "./takeService";
+import { getShotNumbers } from "./sceneService";
+import { parseAspectRatio } from "../utils/aspectRatio";
+
+export type PageOrientation = 'portrait' | 'landscape';
+export type PageSize = 'letter' | 'a4';
+
+export interface StoryboardExportOptions {
+  projectName: string;
+  panelsPerPage: number;
+  orientation: PageOrientation;
+  pageSize: PageSize;
+  includeTitlePage: boolean;
+  notes: string[]; // Text under each panel, normally the final prompt
+  scenes?: Scene[]; // Panels are labelled with production shot numbers
+}
+
+export const PANELS_PER_PAGE_OPTIONS = [1, 2, 4, 6, 9];
+
+// Portrait page sizes in points
+const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  letter: { width: 612, height: 792 },
+  a4: { width: 595.28, height: 841.89 },
+};
+
+// Pages are rasterized at print resolution
+const RENDER_DPI = 150;
+
+const PAGE_BACKGROUND = '#ffffff';
+const INK = '#18181b';
+const MUTED_INK = '#71717a';
+
+const getGrid = (panels: number, orientation: PageOrientation) => {
+  const landscape = orientation === 'landscape';
+  switch (panels) {
+    case 1: return { columns: 1, rows: 1 };
+    case 2: return landscape ? { columns: 2, rows: 1 } : { columns: 1, rows: 2 };
+    case 4: return { columns: 2, rows: 2 };
+    case 6: return landscape ? { columns: 3, rows: 2 } : { columns: 2, rows: 3 };
+    default: return { columns: 3, rows: Math.ceil(panels / 3) };
+  }
+};
+
+const createPageCanvas = (options: StoryboardExportOptions) => {
+  const size = PAGE_SIZES[options.pageSize];
+  const [width, height] = options.orientation === 'landscape'
+    ? [size.height, size.width]
+    : [size.width, size.height];
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((width / 72) * RENDER_DPI);
+  canvas.height = Math.round((height / 72) * RENDER_DPI);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable for export.");
+  ctx.fillStyle = PAGE_BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { canvas, ctx, pointWidth: width, pointHeight: height };
+};
+
+/**
+ * Draws one storyboard panel: the frame at its aspect ratio, then the slate
+ * line (number, shot type, aspect ratio) and the note underneath.
+ */
+const drawPanel = async (
+  ctx: CanvasRenderingContext2D,
+  shot: GeneratedShot,
+  label: string,
+  note: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const fontSize = Math.max(14, Math.round(width / 40));
+  const lineHeight = Math.round(fontSize * 1.35);
+  const textBlock = lineHeight * 4;
+
+  // Fit the frame box to the shot's ratio within the space left above the text
+  const ratio = parseAspectRatio(shot.aspect_ratio);
+  const maxFrameHeight = height - textBlock - lineHeight / 2;
+  let frameWidth = width;
+  let frameHeight = frameWidth / ratio;
+  if (frameHeight > maxFrameHeight) {
+    frameHeight = maxFrameHeight;
+    frameWidth = frameHeight * ratio;
+  }
+  const frameX = x + (width - frameWidth) / 2;
+
+  ctx.fillStyle = '#09090b';
+  ctx.fillRect(frameX, y, frameWidth, frameHeight);
+  const take = getPrimaryTake(shot);
+  const img = take ? await loadImage(take.imageUrl) : null;
+  if (img) {
+    drawImageContain(ctx, img, frameX, y, frameWidth, frameHeight);
+  } else {
+    ctx.fillStyle = '#52525b';
+    ctx.font = `${fontSize}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.fillText('NO FRAME', frameX + frameWidth / 2, y + frameHeight / 2);
+    ctx.textAlign = 'left';
+  }
+  ctx.strokeStyle = INK;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(frameX, y, frameWidth, frameHeight);
+
+  let textY = y + frameHeight + lineHeight;
+  ctx.fillStyle = INK;
+  ctx.font = `bold ${fontSize}px monospace`;
+  ctx.fillText(`${label}  ${shot.shot_type.toUpperCase()}`, frameX, textY);
+  ctx.fillStyle = MUTED_INK;
+  ctx.textAlign = 'right';
+  ctx.fillText(shot.aspect_ratio, frameX + frameWidth, textY);
+  ctx.textAlign = 'left';
+
+  textY += lineHeight;
+  ctx.fillStyle = INK;
+  ctx.font = `${fontSize}px sans-serif`;
+  drawWrappedText(ctx, note, frameX, textY, frameWidth, lineHeight, 3);
+};
+
+const drawPageHeader = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, left: string, right: string, margin: number) => {
+  const fontSize = Math.round(canvas.width / 80);
+  ctx.font = `${fontSize}px monospace`;
+  ctx.fillStyle = MUTED_INK;
+  ctx.fillText(left.toUpperCase(), margin, margin * 0.7);
+  ctx.textAlign = 'right';
+  ctx.fillText(right, canvas.width - margin, margin * 0.7);
+  ctx.textAlign = 'left';
+};
+
+const drawTitlePage = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, shots: GeneratedShot[], options: StoryboardExportOptions) => {
+  const centerX = canvas.width / 2;
+  ctx.textAlign = 'center';
+  ctx.fillStyle = INK;
+  ctx.font = `bold ${Math.round(canvas.width / 18)}px sans-serif`;
+  ctx.fillText(options.projectName, centerX, canvas.height * 0.42);
+  ctx.fillStyle = MUTED_INK;
+  ctx.font = `${Math.round(canvas.width / 50)}px monospace`;
+  ctx.fillText('STORYBOARD', centerX, canvas.height * 0.42 + canvas.width / 20);
+  ctx.fillText(
+    `${shots.length} SHOTS • ${new Date().toLocaleDateString()}`,
+    centerX,
+    canvas.height * 0.42 + canvas.width / 12
+  );
+  ctx.textAlign = 'left';
+};
+
+/**
+ * Lays the storyboard out on pages and returns one canvas per page.
+ */
+export const renderStoryboardPages = async (
+  shots: GeneratedShot[],
+  options: StoryboardExportOptions
+): Promise<{ canvas: HTMLCanvasElement; pointWidth: number; pointHeight: number }[]> => {
+  const pages = [];
+
+  if (options.includeTitlePage) {
+    const page = createPageCanvas(options);
+    drawTitlePage(page.ctx, page.canvas, shots, options);
+    pages.push(page);
+  }
+
+  const shotNumbers = getShotNumbers(shots, options.scenes ?? []);
+  const { columns, rows } = getGrid(options.panelsPerPage, options.orientation);
+  const perPage = columns * rows;
+  const pageCount = Math.max(1, Math.ceil(shots.length / perPage));
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const page = createPageCanvas(options);
+    const { canvas, ctx } = page;
+    const margin = canvas.width * 0.05;
+    const gutter = canvas.width * 0.025;
+    const cellWidth = (canvas.width - margin * 2 - gutter * (columns - 1)) / columns;
+    const cellHeight = (canvas.height - margin * 2 - gutter * (rows - 1)) / rows;
+
+    drawPageHeader(ctx, canvas, options.projectName, `PAGE ${pageIndex + 1} / ${pageCount}`, margin);
+
+    const pageShots = shots.slice(pageIndex * perPage, (pageIndex + 1) * perPage);
+    for (let i = 0; i < pageShots.length; i++) {
+      const shotIndex = pageIndex * perPage + i;
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      await drawPanel(
+        ctx,
+        pageShots[i],
+        shotNumbers[shotIndex],
+        options.notes[shotIndex] ?? pageShots[i].prompt,
+        margin + column * (cellWidth + gutter),
+        margin + row * (cellHeight + gutter),
+        cellWidth,
+        cellHeight
+      );
+    }
+    pages.push(page);
+  }
+
+  return pages;
+};
+
+export const exportStoryboardPdf = async (shots: GeneratedShot[], options: StoryboardExportOptions): Promise<Blob> => {
+  const pages = await renderStoryboardPages(shots, options);
+  const pdfPages: PdfImagePage[] = [];
+  for (const page of pages) {
+    const blob = await canvasToBlob(page.canvas, 'image/jpeg', 0.92);
+    pdfPages.push({
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      pixelWidth: page.canvas.width,
+      pixelHeight: page.canvas.height,
+    });
+  }
+  const { pointWidth, pointHeight } = pages[0];
+  return createImagePdf(pdfPages, { pageWidth: pointWidth, pageHeight: pointHeight, title: options.projectName });
+};
+
+/**
+ * Renders every shot onto a single PNG sheet, `columns` panels wide, with
+ * `notes` under the panels as in the PDF.
+ */
+export const exportContactSheet = async (
+  shots: GeneratedShot[],
+  projectName: string,
+  notes: string[],
+  scenes: Scene[] = [],
+  columns = 4
+): Promise<Blob> => {
+  const shotNumbers = getShotNumbers(shots, scenes);
+  const panelWidth = 480;
+  const panelHeight = Math.round(panelWidth * 9 / 16) + 120;
+  const margin = 40;
+  const gutter = 24;
+  const header = 80;
+  const rows = Math.max(1, Math.ceil(shots.length / columns));
+  const usedColumns = Math.min(columns, Math.max(1, shots.length));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = margin * 2 + usedColumns * panelWidth + (usedColumns - 1) * gutter;
+  canvas.height = margin * 2 + header + rows * panelHeight + (rows - 1) * gutter;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable for export.");
+
+  ctx.fillStyle = PAGE_BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = INK;
+  ctx.font = 'bold 32px sans-serif';
+  ctx.fillText(projectName, margin, margin + 32);
+  ctx.fillStyle = MUTED_INK;
+  ctx.font = '16px monospace';
+  ctx.fillText(`CONTACT SHEET • ${shots.length} SHOTS • ${new Date().toLocaleDateString()}`, margin, margin + 60);
+
+  for (let i = 0; i < shots.length; i++) {
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    await drawPanel(
+      ctx,
+      shots[i],
+      shotNumbers[i],
+      notes[i] ?? shots[i].prompt,
+      margin + column * (panelWidth + gutter),
+      margin + header + row * (panelHeight + gutter),
+      panelWidth,
+      panelHeight
+    );
+  }
+
+  return canvasToBlob(canvas, 'image/png');
+};
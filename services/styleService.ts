@@ -0,0 +1,72 @@
+import { ShotConfig, StylePreset } from "../types";
+import { generateId } from "../utils/ids";
+
+type StyleFields = Omit<StylePreset, 'id'>;
+
+// Presets every new project starts with. The first matches the look the app
+// used before styles were configurable.
+const BUILT_IN_STYLES: StyleFields[] = [
+  {
+    name: 'Cinematic',
+    medium: 'high quality, photorealistic film still',
+    palette: 'natural, cinematic lighting',
+    lens: '',
+    filmStock: '',
+    negativePrompt: '',
+  },
+  {
+    name: 'Pencil Sketch',
+    medium: 'rough graphite pencil storyboard sketch on white paper, loose hatching',
+    palette: 'monochrome grey',
+    lens: '',
+    filmStock: '',
+    negativePrompt: 'color, photorealism, painted textures',
+  },
+  {
+    name: 'Film Noir',
+    medium: 'black and white film still',
+    palette: 'high contrast, deep shadows, hard key light, venetian blind patterns',
+    lens: '35mm spherical, deep focus',
+    filmStock: 'Kodak Double-X 5222',
+    negativePrompt: 'color, soft flat lighting',
+  },
+  {
+    name: 'Anime',
+    medium: 'cel-shaded anime key frame, clean line art',
+    palette: 'saturated, painterly sky backgrounds',
+    lens: '',
+    filmStock: '',
+    negativePrompt: 'photorealism, 3D render',
+  },
+];
+
+export const createStylePreset = (fields: Partial<StyleFields> = {}): StylePreset => ({
+  id: generateId(),
+  name: 'New Style',
+  medium: '',
+  palette: '',
+  lens: '',
+  filmStock: '',
+  negativePrompt: '',
+  ...fields,
+});
+
+export const createDefaultStyles = (): StylePreset[] =>
+  BUILT_IN_STYLES.map(fields => createStylePreset(fields));
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const findStyleByName = (styles: StylePreset[], name: string): StylePreset | undefined =>
+  styles.find(style => normalizeName(style.name) === normalizeName(name));
+
+/**
+ * The style a shot renders with: its own override, else the project style.
+ */
+export const resolveShotStyle = (
+  styles: StylePreset[],
+  projectStyleId: string | null,
+  shot: ShotConfig
+): StylePreset | undefined => {
+  if (shot.style) return findStyleByName(styles, shot.style);
+  return styles.find(style => style.id === projectStyleId);
+};
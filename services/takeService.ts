@@ -0,0 +1,24 @@
+import { GeneratedShot, Take } from "../types";
+
+/**
+ * Random seed for a new take. Kept within 31 bits so every provider accepts it.
+ */
+export const createSeed = (): number => Math.floor(Math.random() * 0x7fffffff);
+
+export const getCircledTake = (shot: GeneratedShot): Take | undefined =>
+  shot.circledTakeId ? shot.takes.find(take => take.id === shot.circledTakeId) : undefined;
+
+/**
+ * The take that represents the shot in exports: the circled take if there is
+ * one, otherwise the most recent.
+ */
+export const getPrimaryTake = (shot: GeneratedShot): Take | undefined =>
+  getCircledTake(shot) ?? shot.takes[shot.takes.length - 1];
+
+/**
+ * Toggles the circled take; circling the current pick clears it.
+ */
+export const toggleCircledTake = (shot: GeneratedShot, takeId: string): GeneratedShot => ({
+  ...shot,
+  circledTakeId: shot.circledTakeId === takeId ? undefined : takeId,
+});
@@ -0,0 +1,233 @@
+import { GeneratedShot, Scene } from "../types";
+import { buildAnimaticTimeline, getMostCommonAspectRatio } from "./animatic";
+import { findScene, getShotNumbers, toShotFileLabel } from "./sceneService";
+import { getPrimaryTake } from "./takeService";
+import { getFrameSize } from "../utils/aspectRatio";
+import { dataUrlToBytes, extensionForMimeType } from "../utils/dataUrl";
+import { toFileSlug } from "../utils/download";
+import { createZip, ZipEntry } from "../utils/zip";
+
+/**
+ * Editorial timeline export. The archive holds the primary take of every shot
+ * and the sequence in three formats, all referring to the frames by relative
+ * path so the folder can be unpacked anywhere:
+ *
+ *   <name>.edl       CMX3600, one event per shot, prompts as comments
+ *   <name>.fcpxml    Final Cut Pro XML 1.8, stills on the primary storyline
+ *   <name>.otio      OpenTimelineIO JSON
+ *   frames/shot-<number>.png   e.g. shot-12A.png, or shot-007.png without scenes
+ *
+ * Shots without a frame become black (EDL) or gaps (FCPXML, OTIO) so later
+ * shots keep their place.
+ */
+
+export const TIMELINE_FRAME_RATES = [24, 25, 30];
+
+export interface TimelineExportOptions {
+  projectName: string;
+  fps: number;
+  notes: string[]; // Clip note per shot, normally the final prompt
+  scenes?: Scene[]; // Clips are named by production shot number and scene heading
+}
+
+interface TimelineEvent {
+  number: number; // Event number, in timeline order
+  shotNumber: string; // Production shot number, e.g. "12A"
+  name: string; // e.g. "Shot 12A - Close Up"
+  shotType: string;
+  scene?: string;
+  note: string;
+  file?: string; // Relative path of the frame; missing when the shot has none
+  start: number; // Frames from the start of the sequence
+  duration: number; // Frames
+}
+
+// Record timecode conventionally starts at one hour
+const RECORD_START_HOURS = 1;
+
+const FRAMES_DIR = 'frames';
+
+const framesToTimecode = (frames: number, fps: number): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const totalSeconds = Math.floor(frames / fps);
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    frames % fps,
+  ].map(pad).join(':');
+};
+
+const toSingleLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const writeEdl = (events: TimelineEvent[], title: string, fps: number): string => {
+  const recordOffset = RECORD_START_HOURS * 3600 * fps;
+  const lines = [`TITLE: ${toSingleLine(title).toUpperCase()}`, `FCM: NON-DROP FRAME`, ``];
+  for (const event of events) {
+    // Reel names are at most 8 characters
+    const reel = event.file ? `SH${event.shotNumber.replace(/[^a-z0-9]/gi, '').toUpperCase()}`.slice(0, 8) : 'BL';
+    lines.push([
+      `${String(event.number).padStart(3, '0')} `,
+      reel.padEnd(8),
+      'V    ',
+      'C       ',
+      framesToTimecode(0, fps),
+      framesToTimecode(event.duration, fps),
+      framesToTimecode(recordOffset + event.start, fps),
+      framesToTimecode(recordOffset + event.start + event.duration, fps),
+    ].join(' '));
+    lines.push(`* FROM CLIP NAME: ${event.file ?? event.name}`);
+    lines.push(`* COMMENT: ${event.name.toUpperCase()}${event.scene ? ` - ${toSingleLine(event.scene)}` : ''}`);
+    if (event.note) lines.push(`* ${toSingleLine(event.note)}`);
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+const writeFcpxml = (
+  events: TimelineEvent[],
+  title: string,
+  fps: number,
+  size: { width: number; height: number }
+): string => {
+  const time = (frames: number) => `${frames}/${fps}s`;
+  const total = events.reduce((sum, event) => sum + event.duration, 0);
+  const assets = events.filter(event => event.file).map(event =>
+    `    <asset id="a${event.number}" name="${escapeXml(event.name)}" src="${escapeXml(event.file!)}" start="0s" duration="0s" hasVideo="1" format="r1"/>`
+  );
+  const clips = events.map(event => {
+    const note = event.note ? `\n              <note>${escapeXml(event.note)}</note>\n            ` : '';
+    return event.file
+      ? `            <video ref="a${event.number}" name="${escapeXml(event.name)}" offset="${time(event.start)}" duration="${time(event.duration)}" start="0s">${note}</video>`
+      : `            <gap name="${escapeXml(event.name)}" offset="${time(event.start)}" duration="${time(event.duration)}" start="0s">${note}</gap>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<!DOCTYPE fcpxml>`,
+    `<fcpxml version="1.8">`,
+    `  <resources>`,
+    `    <format id="r1" name="CineGen ${size.width}x${size.height} ${fps}p" frameDuration="1/${fps}s" width="${size.width}" height="${size.height}"/>`,
+    ...assets,
+    `  </resources>`,
+    `  <library>`,
+    `    <event name="${escapeXml(title)}">`,
+    `      <project name="${escapeXml(title)}">`,
+    `        <sequence format="r1" duration="${time(total)}" tcStart="${RECORD_START_HOURS * 3600}s" tcFormat="NDF">`,
+    `          <spine>`,
+    ...clips,
+    `          </spine>`,
+    `        </sequence>`,
+    `      </project>`,
+    `    </event>`,
+    `  </library>`,
+    `</fcpxml>`,
+    ``,
+  ].join('\n');
+};
+
+const writeOtio = (events: TimelineEvent[], title: string, fps: number): string => {
+  const rationalTime = (value: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: fps, value });
+  const timeRange = (duration: number) => ({
+    OTIO_SCHEMA: 'TimeRange.1',
+    start_time: rationalTime(0),
+    duration: rationalTime(duration),
+  });
+  const children = events.map(event => {
+    const metadata = {
+      cinegen: {
+        shot_number: event.shotNumber,
+        shot_type: event.shotType,
+        ...(event.scene ? { scene: event.scene } : {}),
+        prompt: event.note,
+      },
+    };
+    return event.file
+      ? {
+          OTIO_SCHEMA: 'Clip.1',
+          name: event.name,
+          source_range: timeRange(event.duration),
+          media_reference: { OTIO_SCHEMA: 'ExternalReference.1', target_url: event.file, available_range: null, metadata: {} },
+          effects: [],
+          markers: [],
+          metadata,
+        }
+      : {
+          OTIO_SCHEMA: 'Gap.1',
+          name: event.name,
+          source_range: timeRange(event.duration),
+          effects: [],
+          markers: [],
+          metadata,
+        };
+  });
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: title,
+    global_start_time: rationalTime(RECORD_START_HOURS * 3600 * fps),
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      children: [{ OTIO_SCHEMA: 'Track.1', name: 'Storyboard', kind: 'Video', children, effects: [], markers: [], metadata: {} }],
+      effects: [],
+      markers: [],
+      metadata: {},
+    },
+  };
+  return JSON.stringify(timeline, null, 2);
+};
+
+/**
+ * Packs the frames and the EDL, FCPXML and OTIO timelines into one ZIP.
+ */
+export const exportTimelineZip = (shots: GeneratedShot[], options: TimelineExportOptions): Blob => {
+  const { projectName, fps, notes, scenes = [] } = options;
+  const entries: ZipEntry[] = [];
+  const timeline = buildAnimaticTimeline(shots);
+  const shotNumbers = getShotNumbers(shots, scenes);
+
+  // Cuts land on whole frames; rounding the running total keeps them from drifting
+  let position = 0;
+  const events: TimelineEvent[] = timeline.clips.map(clip => {
+    const shot = shots[clip.index];
+    const shotNumber = shotNumbers[clip.index];
+    const start = position;
+    position = Math.max(start + 1, Math.round((clip.start + clip.duration) * fps));
+
+    let file: string | undefined;
+    const take = getPrimaryTake(shot);
+    if (take) {
+      const { mimeType, bytes } = dataUrlToBytes(take.imageUrl);
+      file = `${FRAMES_DIR}/shot-${toShotFileLabel(shotNumber)}.${extensionForMimeType(mimeType)}`;
+      entries.push({ name: file, data: bytes });
+    }
+
+    const scene = findScene(scenes, shot.scene);
+    return {
+      number: clip.index + 1,
+      shotNumber,
+      name: `Shot ${shotNumber} - ${shot.shot_type}`,
+      shotType: shot.shot_type,
+      scene: scene?.heading || shot.scene,
+      note: notes[clip.index] ?? shot.prompt,
+      file,
+      start,
+      duration: position - start,
+    };
+  });
+
+  const encoder = new TextEncoder();
+  const slug = toFileSlug(projectName);
+  const size = getFrameSize(getMostCommonAspectRatio(shots), 1920);
+  entries.unshift(
+    { name: `${slug}.edl`, data: encoder.encode(writeEdl(events, projectName, fps)) },
+    { name: `${slug}.fcpxml`, data: encoder.encode(writeFcpxml(events, projectName, fps, size)) },
+    { name: `${slug}.otio`, data: encoder.encode(writeOtio(events, projectName, fps)) }
+  );
+  return createZip(entries);
+};
@@ -1,43 +1,448 @@
+export enum ShotType {
+  EXTREME_WIDE = 'Extreme Wide Shot',
+  WIDE = 'Wide Shot',
+  FULL = 'Full Shot',
+  MEDIUM_WIDE = 'Medium Wide Shot',
+  MEDIUM = 'Medium Shot',
+  MEDIUM_CLOSE_UP = 'Medium Close Up',
+  CLOSE_UP = 'Close Up',
+  EXTREME_CLOSE_UP = 'Extreme Close Up',
+  TWO_SHOT = 'Two Shot',
+  OVER_THE_SHOULDER = 'Over the Shoulder',
+  POV = 'POV',
+  INSERT = 'Insert',
+  LOW_ANGLE = 'Low Angle',
+  HIGH_ANGLE = 'High Angle',
+  DUTCH_ANGLE = 'Dutch Angle',
+  AERIAL = 'Aerial',
+}
+
+export enum AspectRatio {
+  SQUARE = '1:1',
+  PORTRAIT = '4:5',
+  VERTICAL = '9:16',
+  ACADEMY = '4:3',
+  WIDESCREEN = '16:9',
+  FLAT = '1.85:1',
+  SCOPE = '2.39:1',
+}
+
 export interface Shot {
   id: string; // Internal ID for React keys
-  shot_type: string;
-  aspect_ratio: string;
+  shot_type: ShotType;
+  aspect_ratio: AspectRatio;
   prompt: string;
+  characters?: string[];
+  scene?: string;
+  style?: string;
+  duration?: number;
+  references?: ReferenceAngle[];
+  camera?: CameraSettings;
+  end_frame?: boolean;
 }
 
 export interface ShotConfig {
-  shot_type: string;
-  aspect_ratio: string;
+  id?: string; // Stable across edits and reordering; assigned when missing
+  shot_type: ShotType;
+  aspect_ratio: AspectRatio;
   prompt: string;
+  characters?: string[]; // Cast member names in the shot. Omit to include the whole cast.
+  scene?: string; // Scene the shot belongs to, by number ("12") or heading ("INT. ALLEY - NIGHT")
+  style?: string; // Style preset name; overrides the project style for this shot
+  duration?: number; // Seconds on screen in the animatic
+  references?: ReferenceAngle[]; // Reference angles sent for this shot. Omit to send all.
+  camera?: CameraSettings;
+  end_frame?: boolean; // Also render the last frame of a camera move
+}
+
+export enum CameraHeight {
+  GROUND = 'Ground Level',
+  KNEE = 'Knee Level',
+  HIP = 'Hip Level',
+  EYE = 'Eye Level',
+  SHOULDER = 'Shoulder Level',
+  HIGH = 'High',
+  OVERHEAD = 'Overhead',
+}
+
+export enum CameraAngle {
+  LEVEL = 'Level',
+  LOW = 'Low Angle',
+  HIGH = 'High Angle',
+  DUTCH = 'Dutch',
+  TOP_DOWN = 'Top Down',
+}
+
+export enum CameraMovement {
+  STATIC = 'Static',
+  PAN = 'Pan',
+  TILT = 'Tilt',
+  DOLLY_IN = 'Dolly In',
+  DOLLY_OUT = 'Dolly Out',
+  TRUCK = 'Truck',
+  CRANE_UP = 'Crane Up',
+  CRANE_DOWN = 'Crane Down',
+  HANDHELD = 'Handheld',
+  STEADICAM = 'Steadicam',
+  ZOOM_IN = 'Zoom In',
+  ZOOM_OUT = 'Zoom Out',
+}
+
+export enum DepthOfField {
+  SHALLOW = 'Shallow',
+  MEDIUM = 'Medium',
+  DEEP = 'Deep',
+}
+
+export enum LightingKey {
+  HIGH_KEY = 'High Key',
+  LOW_KEY = 'Low Key',
+  NATURAL = 'Natural',
+  GOLDEN_HOUR = 'Golden Hour',
+  BLUE_HOUR = 'Blue Hour',
+  NIGHT = 'Night',
+  SILHOUETTE = 'Silhouette',
+}
+
+/**
+ * Camera report for a shot. Every field is optional; the prompt only
+ * describes the ones that are set.
+ */
+export interface CameraSettings {
+  lens_mm?: number; // Focal length, full-frame equivalent
+  height?: CameraHeight;
+  angle?: CameraAngle;
+  movement?: CameraMovement;
+  depth_of_field?: DepthOfField;
+  lighting?: LightingKey;
+}
+
+/**
+ * A group of scenes, e.g. "The Heist".
+ */
+export interface Sequence {
+  id: string;
+  name: string;
+}
+
+/**
+ * A scene in production order. Its shots are numbered from it: 12A, 12B...
+ */
+export interface Scene {
+  id: string;
+  number: string; // Production scene number, e.g. "12" or "12A"
+  heading: string; // e.g. "INT. ALLEY - NIGHT"
+  location: string;
+  timeOfDay: string;
+  sequenceId?: string;
+}
+
+/**
+ * A named look applied to prompts. Empty fields are left out of the prompt.
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  medium: string; // e.g. "pencil sketch", "photorealistic film still"
+  palette: string;
+  lens: string;
+  filmStock: string;
+  negativePrompt: string; // Things the frame should avoid
+}
+
+/**
+ * A reusable piece of prompt text, inserted into shot prompts as `{{name}}`.
+ * Names are dotted paths such as "location.alley" or "char.hero".
+ */
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  value: string; // May use other snippets
+}
+
+export enum ReferenceAngle {
+  FRONT = 'Front',
+  THREE_QUARTER = 'Three Quarter',
+  PROFILE = 'Profile',
+  BACK = 'Back',
+  FULL_BODY = 'Full Body',
+  WARDROBE = 'Wardrobe',
+  OTHER = 'Other',
+}
+
+export interface ReferenceImage {
+  id: string;
+  dataUrl: string; // Cropped and rotated as edited; re-encoded per ReferenceSettings when sent
+  angle: ReferenceAngle;
+}
+
+/**
+ * How reference images are prepared before they are sent to a provider.
+ */
+export interface ReferenceSettings {
+  maxEdge: number; // Pixels; larger images are scaled down
+  format: 'image/jpeg' | 'image/webp' | 'image/png';
+  quality: number; // 0 to 1, for JPEG and WebP
+}
+
+/**
+ * A named character with one or more labelled reference images.
+ */
+export interface CastMember {
+  id: string;
+  name: string;
+  referenceImages: ReferenceImage[];
 }
 
 export enum GenerationStatus {
   IDLE = 'IDLE',
-  PENDING = 'PENDING',
+  QUEUED = 'QUEUED', // Waiting for a queue slot, or backing off before a retry
+  PENDING = 'PENDING', // Rendering
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * How closely a take matches the reference images of the characters in its
+ * shot, from 0 to 1.
+ */
+export interface ConsistencyScore {
+  score: number; // The weakest character's score
+  characters: { name: string; score: number }[];
+}
+
+/**
+ * One rendered frame for a shot. Takes are kept when the shot is rendered
+ * again, so earlier versions can still be compared and picked.
+ */
+export interface Take {
+  id: string;
+  imageUrl: string; // For a camera move with an end frame, its first frame
+  endImageUrl?: string; // Last frame of a camera move
+  prompt: string; // The shot's prompt when this take was rendered
+  seed?: number; // Unknown for frames rendered before takes were recorded
+  model?: string; // Model that rendered the frame
+  generatedAt: number; // Epoch ms when the frame arrived
+  durationMs?: number; // Time the provider took to render it
+  edit?: TakeEdit; // Set when the take is a region edit of another take
+  consistency?: ConsistencyScore; // Missing when the shot has no character references
+  reviewNotes?: string[]; // Reviewer notes that were added to the prompt
+  config?: ShotConfig; // Shot config the frame was rendered from; missing from older takes
+}
+
+export interface TakeEdit {
+  sourceTakeId: string;
+  instruction: string;
+}
+
+/**
+ * Kinds of render failure; see services/generationErrors.ts.
+ */
+export type GenerationErrorCode =
+  | 'safety_block'
+  | 'rate_limit'
+  | 'quota_exceeded'
+  | 'payload_too_large'
+  | 'network'
+  | 'text_only_response'
+  | 'no_image'
+  | 'auth'
+  | 'server'
+  | 'unknown';
+
+export interface ShotFailure {
+  code: GenerationErrorCode;
+  retryable: boolean;
+  detail?: string; // The model's own explanation, e.g. why it refused
 }
 
 export interface GeneratedShot extends Shot {
-  imageUrl?: string;
-  status: GenerationStatus;
+  takes: Take[]; // Oldest first
+  circledTakeId?: string; // The director's pick; used by exports instead of the latest take
+  status: GenerationStatus; // State of the most recent render request
   error?: string;
+  failure?: ShotFailure; // Set with `error` when the last render failed
+  review?: ShotReview; // Missing until someone reviews the shot
+}
+
+export enum ReviewStatus {
+  PENDING = 'Pending',
+  APPROVED = 'Approved',
+  NEEDS_CHANGES = 'Needs Changes',
+  OMITTED = 'Omitted',
+}
+
+/**
+ * A note on a shot. Replies point at the comment they answer; only
+ * top-level comments are resolved or fed into renders.
+ */
+export interface ReviewComment {
+  id: string;
+  parentId?: string;
+  author: string;
+  text: string;
+  createdAt: number; // Epoch ms
+  takeId?: string; // Take on screen when the note was written
+  resolved?: boolean;
+  forNextRender?: boolean; // Added to the prompt while the comment is open
+}
+
+export type AnnotationTool = 'freehand' | 'arrow';
+
+// Position on the frame, 0 to 1 from the top left
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A mark drawn over a take, kept as vector data so it scales with the frame.
+ */
+export interface FrameAnnotation {
+  id: string;
+  takeId: string;
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[]; // An arrow has two: tail, then head
+  author: string;
+  createdAt: number;
+}
+
+export interface ShotReview {
+  status: ReviewStatus;
+  comments: ReviewComment[]; // Oldest first
+  annotations: FrameAnnotation[];
+}
+
+/**
+ * A saved storyboard project. Persisted as a single record in IndexedDB.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  cast: CastMember[];
+  referenceSettings: ReferenceSettings;
+  styles: StylePreset[];
+  styleId: string | null; // Project-wide style preset
+  snippets: PromptSnippet[];
+  sequences: Sequence[];
+  scenes: Scene[];
+  shotListJson: string; // Raw contents of the shot list editor
+  shots: GeneratedShot[];
+  snapshots: ProjectSnapshot[]; // Oldest first
 }
 
+/**
+ * A shot as it was when a snapshot was taken, with the frame it had then.
+ */
+export interface SnapshotShot extends ShotConfig {
+  id: string;
+  take?: Take; // Primary take; missing when the shot had not been rendered
+}
+
+/**
+ * A named copy of the shot list and its frames, to compare later revisions
+ * against.
+ */
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch ms
+  shots: SnapshotShot[];
+  scenes: Scene[]; // For the shot numbers at the time
+}
+
+/**
+ * Lightweight view of a project for the project browser.
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  shotCount: number;
+  thumbnailUrl?: string;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Everything a provider needs to render one storyboard frame.
+ */
+export interface FrameRequest {
+  cast: CastMember[]; // Full project cast; providers send only the members in the shot
+  shot: ShotConfig;
+  size: FrameSize; // Output dimensions matching shot.aspect_ratio
+  style?: StylePreset; // Resolved style for the shot
+  seed?: number; // Providers that support seeding render the same take for the same seed
+  startFrame?: string; // Data URL of the first frame of a camera move; set when requesting its last frame
+  notes?: string[]; // Reviewer notes to address in this render
+  signal?: AbortSignal; // Aborts the request when the shot is cancelled
+  onDiagnostic?: (diagnostic: RequestDiagnostic) => void; // Called once per request sent
+}
+
+/**
+ * A region edit of an existing frame: only the masked area should change.
+ */
+export interface FrameEditRequest {
+  image: string; // Data URL of the frame being edited
+  mask: string; // PNG data URL at the frame's size; white marks the region to change
+  instruction: string; // e.g. "make the jacket red"
+  shot: ShotConfig;
+  size: FrameSize;
+  style?: StylePreset; // Keeps the repainted region in the shot's look
+  signal?: AbortSignal;
+  onDiagnostic?: (diagnostic: RequestDiagnostic) => void;
+}
+
+/**
+ * What a provider reports about one request, for the diagnostics panel.
+ */
+export interface RequestDiagnostic {
+  prompt: string;
+  payloadBytes: number; // Approximate size of the request body
+  latencyMs: number;
+  response: string; // Short summary of the raw response, or the error
+  errorCode?: GenerationErrorCode; // Missing when the request produced a frame
+}
+
+/**
+ * An image-generation backend. Providers are looked up by id through the
+ * registry in services/providerRegistry.ts.
+ */
+export interface ImageProvider {
+  id: string;
+  label: string;
+  model: string; // Recorded on each generated shot
+  isAvailable: () => boolean;
+  generateFrame: (request: FrameRequest) => Promise<string>; // Resolves to a data URL; may differ from the requested size
+  editFrame?: (request: FrameEditRequest) => Promise<string>; // Optional region edit (inpainting)
+}
+
+export const DEFAULT_CHARACTER_NAME = "Hero";
+
 export const DEFAULT_SHOT_LIST: ShotConfig[] = [
   {
-    shot_type: "Wide Shot",
-    aspect_ratio: "16:9",
-    prompt: "A wide cinematic shot of the character standing in a futuristic neon-lit alleyway, rain falling heavily."
+    shot_type: ShotType.WIDE,
+    aspect_ratio: AspectRatio.WIDESCREEN,
+    prompt: "A wide cinematic shot of the character standing in a futuristic neon-lit alleyway, rain falling heavily.",
+    characters: [DEFAULT_CHARACTER_NAME]
   },
   {
-    shot_type: "Close Up",
-    aspect_ratio: "16:9",
-    prompt: "A close up on the character's face, showing intense determination, neon lights reflecting in their eyes."
+    shot_type: ShotType.CLOSE_UP,
+    aspect_ratio: AspectRatio.WIDESCREEN,
+    prompt: "A close up on the character's face, showing intense determination, neon lights reflecting in their eyes.",
+    characters: [DEFAULT_CHARACTER_NAME]
   },
   {
-    shot_type: "Low Angle",
-    aspect_ratio: "16:9",
-    prompt: "Low angle hero shot of the character looking up at a towering skyscraper."
+    shot_type: ShotType.LOW_ANGLE,
+    aspect_ratio: AspectRatio.WIDESCREEN,
+    prompt: "Low angle hero shot of the character looking up at a towering skyscraper.",
+    characters: [DEFAULT_CHARACTER_NAME]
   }
 ];
\ No newline at end of file
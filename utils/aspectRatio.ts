@@ -0,0 +1,37 @@
+import { FrameSize } from "../types";
+
+// Long edge of rendered frames, in pixels
+export const FRAME_LONG_EDGE = 1024;
+
+/**
+ * "2.39:1" -> 2.39, "16:9" -> 1.777...
+ */
+export const parseAspectRatio = (ratio: string): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w > 0 && h > 0 ? w / h : 16 / 9;
+};
+
+/**
+ * Pixel size for a frame at the given ratio. Dimensions are rounded to even
+ * numbers, which video encoders expect.
+ */
+export const getFrameSize = (ratio: string, longEdge = FRAME_LONG_EDGE): FrameSize => {
+  const value = parseAspectRatio(ratio);
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  return value >= 1
+    ? { width: longEdge, height: even(longEdge / value) }
+    : { width: even(longEdge * value), height: longEdge };
+};
+
+/**
+ * Picks the ratio from `supported` closest to `ratio`, comparing on a log
+ * scale so 2:1 and 1:2 are equally far from 1:1.
+ */
+export const findClosestAspectRatio = (ratio: string, supported: string[]): string => {
+  const target = Math.log(parseAspectRatio(ratio));
+  return supported.reduce((best, candidate) =>
+    Math.abs(Math.log(parseAspectRatio(candidate)) - target) < Math.abs(Math.log(parseAspectRatio(best)) - target)
+      ? candidate
+      : best
+  );
+};
@@ -0,0 +1,147 @@
+/**
+ * Small canvas helpers shared by the mock renderer and the exporters.
+ */
+
+export const loadImage = (src: string): Promise<HTMLImageElement | null> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+};
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Draws wrapped text and cuts it off with an ellipsis after `maxLines`.
+ * Returns the y coordinate below the last line drawn.
+ */
+export const drawWrappedText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number,
+  maxLines: number
+): number => {
+  if (maxLines <= 0) return y;
+  const lines = wrapText(ctx, text, maxWidth);
+  const visible = lines.slice(0, maxLines);
+  if (lines.length > maxLines) {
+    let last = visible[maxLines - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+      last = last.slice(0, -1);
+    }
+    visible[maxLines - 1] = `${last}…`;
+  }
+  visible.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  return y + visible.length * lineHeight;
+};
+
+/**
+ * Draws an image scaled to fit inside a box, centered, without cropping.
+ */
+export const drawImageContain = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const scale = Math.min(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.drawImage(img, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/**
+ * Draws an image scaled to fill a box, centered, cropping whatever overflows.
+ */
+export const drawImageCover = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const scale = Math.max(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.drawImage(img, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.restore();
+};
+
+export type FrameFit = 'crop' | 'letterbox';
+
+// Ratios closer than this are treated as equal, so rounding doesn't trigger a re-encode
+const RATIO_TOLERANCE = 0.005;
+
+/**
+ * Redraws an image at an exact aspect ratio, either cropping the overflow or
+ * adding black bars. The source resolution is kept; images that already
+ * have the ratio are returned unchanged.
+ */
+export const conformImageToAspectRatio = async (dataUrl: string, ratio: number, fit: FrameFit): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  if (!img) {
+    throw new Error("Generated frame could not be decoded.");
+  }
+  const sourceRatio = img.width / img.height;
+  if (Math.abs(sourceRatio / ratio - 1) < RATIO_TOLERANCE) return dataUrl;
+
+  // Cropping keeps the largest box that fits inside the image; letterboxing the smallest that contains it
+  const wider = sourceRatio > ratio;
+  const keepWidth = fit === 'crop' ? !wider : wider;
+  const width = keepWidth ? img.width : Math.round(img.height * ratio);
+  const height = keepWidth ? Math.round(img.width / ratio) : img.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context unavailable.");
+  }
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  if (fit === 'crop') {
+    drawImageCover(ctx, img, 0, 0, width, height);
+  } else {
+    drawImageContain(ctx, img, 0, 0, width, height);
+  }
+
+  const mimeType = /^data:(image\/(?:png|jpeg|webp))[;,]/.exec(dataUrl)?.[1] ?? 'image/png';
+  return canvas.toDataURL(mimeType, 0.92);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Failed to encode canvas"))),
+      type,
+      quality
+    );
+  });
+};
@@ -0,0 +1,49 @@
+/**
+ * Conversions between data URLs (how frames live in state) and raw bytes
+ * (how they go into archives).
+ */
+
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match) {
+    throw new Error("Not a data URL.");
+  }
+  const mimeType = match[1] || 'application/octet-stream';
+  if (!match[2]) {
+    return { mimeType, bytes: new TextEncoder().encode(decodeURIComponent(match[3])) };
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { mimeType, bytes };
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  // Build the binary string in chunks to stay under argument-count limits
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+// Reads the header only, without decoding the payload
+export const getDataUrlMimeType = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'bin';
+
+export const mimeTypeForFileName = (fileName: string): string => {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  const entry = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension || (ext === 'jpg' && extension === 'jpeg'));
+  return entry?.[0] ?? 'application/octet-stream';
+};
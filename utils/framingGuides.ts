@@ -0,0 +1,49 @@
+/**
+ * Framing guide geometry in a 0-100 coordinate space, stretched over the
+ * frame. Shared by the card overlay and the fullscreen viewer.
+ */
+
+export interface FramingGuideOptions {
+  safeAreas: boolean; // Action safe (93%) and title safe (90%)
+  thirds: boolean;
+  center: boolean;
+}
+
+export const NO_FRAMING_GUIDES: FramingGuideOptions = { safeAreas: false, thirds: false, center: false };
+
+export interface GuideShape {
+  kind: 'line' | 'rect';
+  x1: number;
+  y1: number;
+  x2: number; // For rects, the opposite corner
+  y2: number;
+  dashed?: boolean;
+}
+
+const ACTION_SAFE_INSET = 3.5;
+const TITLE_SAFE_INSET = 5;
+const CENTER_MARK_SIZE = 3;
+
+export const getGuideShapes = (options: FramingGuideOptions): GuideShape[] => {
+  const shapes: GuideShape[] = [];
+  if (options.safeAreas) {
+    shapes.push(
+      { kind: 'rect', x1: ACTION_SAFE_INSET, y1: ACTION_SAFE_INSET, x2: 100 - ACTION_SAFE_INSET, y2: 100 - ACTION_SAFE_INSET },
+      { kind: 'rect', x1: TITLE_SAFE_INSET, y1: TITLE_SAFE_INSET, x2: 100 - TITLE_SAFE_INSET, y2: 100 - TITLE_SAFE_INSET, dashed: true }
+    );
+  }
+  if (options.thirds) {
+    for (const at of [100 / 3, 200 / 3]) {
+      shapes.push({ kind: 'line', x1: at, y1: 0, x2: at, y2: 100 }, { kind: 'line', x1: 0, y1: at, x2: 100, y2: at });
+    }
+  }
+  if (options.center) {
+    shapes.push(
+      { kind: 'line', x1: 50 - CENTER_MARK_SIZE, y1: 50, x2: 50 + CENTER_MARK_SIZE, y2: 50 },
+      { kind: 'line', x1: 50, y1: 50 - CENTER_MARK_SIZE, x2: 50, y2: 50 + CENTER_MARK_SIZE }
+    );
+  }
+  return shapes;
+};
+
+export const GUIDE_STROKE = 'rgba(255,255,255,0.55)';
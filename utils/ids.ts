@@ -0,0 +1,2 @@
+// Helper to generate unique IDs
+export const generateId = () => Math.random().toString(36).substring(7);
@@ -0,0 +1,194 @@
+/**
+ * Minimal JSON parser that keeps source offsets for every node, so callers
+ * can report problems at the exact line and column of the input text.
+ */
+
+interface NodeBase {
+  start: number; // Offset of the first character
+  end: number; // Offset just past the last character
+}
+
+export interface JsonProperty {
+  key: string;
+  keyStart: number;
+  value: JsonNode;
+}
+
+export type JsonNode =
+  | (NodeBase & { kind: 'object'; properties: JsonProperty[] })
+  | (NodeBase & { kind: 'array'; items: JsonNode[] })
+  | (NodeBase & { kind: 'string'; value: string })
+  | (NodeBase & { kind: 'number'; value: number })
+  | (NodeBase & { kind: 'boolean'; value: boolean })
+  | (NodeBase & { kind: 'null' });
+
+export class JsonSyntaxError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+    this.offset = offset;
+  }
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+const describeChar = (ch: string | undefined) =>
+  ch === undefined ? 'end of input' : `'${ch}'`;
+
+export const parseJsonAst = (text: string): JsonNode => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const fail = (message: string, offset = pos): never => {
+    throw new JsonSyntaxError(message, offset);
+  };
+
+  const expect = (ch: string) => {
+    if (text[pos] !== ch) fail(`Expected '${ch}' but found ${describeChar(text[pos])}`);
+    pos++;
+  };
+
+  const parseString = (): JsonNode & { kind: 'string' } => {
+    const start = pos;
+    expect('"');
+    let value = '';
+    while (true) {
+      const ch = text[pos];
+      if (ch === undefined || ch === '\n') fail('Unterminated string', start);
+      if (ch === '"') break;
+      if (ch === '\\') {
+        const esc = text[pos + 1];
+        const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+        if (esc === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape');
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else if (esc in simple) {
+          value += simple[esc];
+          pos += 2;
+        } else {
+          fail(`Invalid escape sequence '\\${esc ?? ''}'`);
+        }
+      } else {
+        value += ch;
+        pos++;
+      }
+    }
+    pos++;
+    return { kind: 'string', value, start, end: pos };
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const start = pos;
+    const ch = text[pos];
+
+    if (ch === '{') {
+      pos++;
+      const properties: JsonProperty[] = [];
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return { kind: 'object', properties, start, end: pos };
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] !== '"') {
+          fail(text[pos] === '}' ? 'Trailing comma before \'}\'' : `Expected property name but found ${describeChar(text[pos])}`);
+        }
+        const key = parseString();
+        skipWhitespace();
+        expect(':');
+        const value = parseValue();
+        properties.push({ key: key.value, keyStart: key.start, value });
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === '}') {
+          pos++;
+          return { kind: 'object', properties, start, end: pos };
+        }
+        fail(`Expected ',' or '}' but found ${describeChar(text[pos])}`);
+      }
+    }
+
+    if (ch === '[') {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return { kind: 'array', items, start, end: pos };
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] === ']') fail('Trailing comma before \']\'');
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === ']') {
+          pos++;
+          return { kind: 'array', items, start, end: pos };
+        }
+        fail(`Expected ',' or ']' but found ${describeChar(text[pos])}`);
+      }
+    }
+
+    if (ch === '"') return parseString();
+
+    for (const [literal, node] of [
+      ['true', { kind: 'boolean', value: true }],
+      ['false', { kind: 'boolean', value: false }],
+      ['null', { kind: 'null' }],
+    ] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return { ...node, start, end: pos } as JsonNode;
+      }
+    }
+
+    NUMBER_PATTERN.lastIndex = pos;
+    const match = NUMBER_PATTERN.exec(text);
+    if (match) {
+      pos += match[0].length;
+      return { kind: 'number', value: Number(match[0]), start, end: pos };
+    }
+
+    return fail(`Unexpected ${describeChar(ch)}`);
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail(`Unexpected ${describeChar(text[pos])} after end of document`);
+  return root;
+};
+
+/**
+ * Converts a character offset into a 1-based line and column.
+ */
+export const offsetToLineColumn = (text: string, offset: number): { line: number; column: number } => {
+  const before = text.slice(0, offset);
+  const lastBreak = before.lastIndexOf('\n');
+  return {
+    line: before.split('\n').length,
+    column: offset - lastBreak,
+  };
+};
+
+/**
+ * Looks up a property node on an object node.
+ */
+export const getProperty = (node: JsonNode, key: string): JsonProperty | undefined => {
+  return node.kind === 'object' ? node.properties.find(p => p.key === key) : undefined;
+};
@@ -0,0 +1,88 @@
+/**
+ * Writes a PDF where every page is a single full-bleed JPEG. That's all the
+ * storyboard export needs, and it keeps the app free of a PDF dependency.
+ */
+
+export interface PdfImagePage {
+  jpeg: Uint8Array; // Baseline JPEG bytes
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+export interface PdfDocumentOptions {
+  pageWidth: number; // In points (1/72 inch)
+  pageHeight: number;
+  title?: string;
+}
+
+const encoder = new TextEncoder();
+
+// PDF literal strings need backslashes and parentheses escaped; keep to ASCII
+const escapePdfString = (value: string) =>
+  value.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+
+export const createImagePdf = (pages: PdfImagePage[], options: PdfDocumentOptions): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Object ids: 1 catalog, 2 page tree, 3 info, then (page, content, image) per page
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  const { pageWidth: w, pageHeight: h } = options;
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write(`<< /Producer (CineGen) /Title (${escapePdfString(options.title ?? 'Storyboard')}) >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q\n`;
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    beginObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}endstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = offsets.length;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return new Blob([output], { type: 'application/pdf' });
+};